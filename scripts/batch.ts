@@ -0,0 +1,117 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { SimulationConfig } from '../src/types';
+import { DEFAULT_CONFIG } from '../src/config';
+import { runBatch, resultsToCsv } from '../src/batch';
+import { listStrategies } from '../src/strategies';
+import { listRepositioningPolicies } from '../src/rebalancing';
+import { parseLaneSpec } from '../src/lanes';
+import { setDebugLogging } from '../src/debug';
+import { parseSettings, type SettingValues } from '../src/settings';
+
+interface BatchFile {
+	config?: Partial<SimulationConfig>;
+	seeds?: number[];
+	ticks?: number;
+	strategies?: string[];
+}
+
+const USAGE = 'Usage: bun scripts/batch.ts <config.json> [--seeds 1,2,3] [--ticks 1000] [--strategies greedy,optimized+demand] [--out results] [--verbose]';
+
+function parseArgs(argv: string[]) {
+	const args = {
+		configPath: undefined as string | undefined,
+		seeds: undefined as number[] | undefined,
+		ticks: undefined as number | undefined,
+		strategies: undefined as string[] | undefined,
+		out: 'batch-results',
+		verbose: false,
+	};
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (arg === '--seeds') {
+			args.seeds = argv[++i].split(',').map(Number);
+		} else if (arg === '--ticks') {
+			args.ticks = Number(argv[++i]);
+		} else if (arg === '--strategies') {
+			args.strategies = argv[++i].split(',');
+		} else if (arg === '--out') {
+			args.out = argv[++i];
+		} else if (arg === '--verbose') {
+			args.verbose = true;
+		} else if (!arg.startsWith('--')) {
+			args.configPath = arg;
+		} else {
+			throw new Error(`Unknown option ${arg}`);
+		}
+	}
+
+	return args;
+}
+
+// Overrides must name a config field, keep its type and pass the settings panel's checks, so a
+// typo or an out-of-range value fails the run instead of being ignored.
+function parseConfig(overrides: Record<string, unknown>): { config: SimulationConfig; errors: string[] } {
+	const values: Partial<SettingValues> = {};
+	const errors: string[] = [];
+	for (const [key, value] of Object.entries(overrides)) {
+		if (!(key in DEFAULT_CONFIG)) {
+			errors.push(`Unknown config field "${key}"`);
+			continue;
+		}
+		const expected = DEFAULT_CONFIG[key as keyof SimulationConfig];
+		if (typeof value !== typeof expected) {
+			errors.push(`Config field "${key}" must be a ${Array.isArray(expected) ? 'list' : typeof expected}`);
+			continue;
+		}
+		values[key as keyof SimulationConfig] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+	}
+
+	const parsed = parseSettings(values);
+	for (const [key, message] of Object.entries(parsed.errors)) {
+		errors.push(`Config field "${key}": ${message}`);
+	}
+	return { config: parsed.config, errors };
+}
+
+function main() {
+	const args = parseArgs(process.argv.slice(2));
+	if (!args.configPath) {
+		console.error(USAGE);
+		process.exit(1);
+	}
+
+	const file: BatchFile = JSON.parse(readFileSync(args.configPath, 'utf8'));
+	const { config, errors } = parseConfig(file.config ?? {});
+	if (errors.length > 0) {
+		console.error(errors.join('\n'));
+		process.exit(1);
+	}
+	const seeds = args.seeds ?? file.seeds ?? [1];
+	const ticks = args.ticks ?? file.ticks ?? 1000;
+	const strategies = args.strategies ?? file.strategies;
+
+	if (seeds.some(seed => !Number.isInteger(seed)) || !Number.isInteger(ticks) || ticks < 0) {
+		console.error(`Invalid seeds or tick count\n${USAGE}`);
+		process.exit(1);
+	}
+
+	try {
+		strategies?.forEach(parseLaneSpec);
+	} catch (err) {
+		const available = listStrategies().map(s => s.id).join(', ');
+		const policies = listRepositioningPolicies().map(p => p.id).join(', ');
+		console.error(`${(err as Error).message} (strategies: ${available}; rebalancing: ${policies})`);
+		process.exit(1);
+	}
+
+	setDebugLogging(args.verbose);
+
+	const results = runBatch({ config, seeds, ticks, strategies });
+
+	writeFileSync(`${args.out}.json`, JSON.stringify(results, null, 2) + '\n');
+	writeFileSync(`${args.out}.csv`, resultsToCsv(results));
+	process.stdout.write(`Wrote ${results.length} results to ${args.out}.json and ${args.out}.csv\n`);
+}
+
+main();
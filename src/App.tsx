@@ -1,206 +1,285 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { CityCanvas } from './CityCanvas';
-import type { SimulationState, SimulationConfig, Metrics, Passenger, Position } from './types';
-import {
-	createSimulation,
-	cloneSimulationState,
-	spawnPassengers,
-	assignGreedy,
-	assignOptimized,
-	defaultOptimizer,
-	tickSimulation,
-	calculateMetrics,
-	type OptimizationAssigner,
-} from './simulation';
-
-const CONFIG: SimulationConfig = {
-	cityWidth: 40,
-	cityHeight: 36,
-	numTaxis: 12,
-	queueSize: 12,
-	passengerSpawnChance: 0.7,
-	ticksPerSpawnCheck: 5,
-	burstChance: 0.1,
-	burstMinSize: 4,
-	burstMaxSize: 11,
-};
-
-const SEED = 12344;
-const TICK_INTERVAL_MS = 100;
-
-function seededRandom(seed: number): () => number {
-	return () => {
-		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-		return seed / 0x7fffffff;
-	};
-}
-
-export const optimizer: OptimizationAssigner = defaultOptimizer;
-
-interface SimStates {
-	greedy: SimulationState;
-	optimized: SimulationState;
-}
-
-let manualPassengerIdCounter = 0;
+import { StrategyPicker, LaneControls } from './StrategyPicker';
+import { TimelineBar } from './TimelineBar';
+import { ChartsPanel } from './ChartsPanel';
+import { MapEditorBar } from './MapEditorBar';
+import { SettingsPanel } from './SettingsPanel';
+import type { City, Position, SimulationConfig } from './types';
+import { hourOfDay } from './demand';
+import { createTraceSource, detectTraceFormat, formatTrace, parseTrace } from './trace';
+import { downloadText, pickTextFile } from './files';
+import { decodeSnapshot, encodeSnapshot, parseSnapshot } from './snapshot';
+import { laneTitle, type LaneSpec } from './lanes';
+import { listStrategies } from './strategies';
+import { listRepositioningPolicies } from './rebalancing';
+import { summarizeCollector } from './collector';
+import { computeHeatmap, HEATMAP_LABELS, type HeatmapKind } from './heatmap';
+import { formatMapFile, paintCell, parseMapFile, type EditTool } from './mapEditor';
+import { formatAsciiMap } from './asciiMap';
+import { listLayouts } from './layouts';
+import { roadComponents } from './roads';
+import { useEngine } from './useEngine';
+import type { EngineSpeed } from './engineProtocol';
+import { DEFAULT_CONFIG, DEFAULT_SEED } from './config';
+import { settingsFromQuery, settingsToQuery } from './settings';
+
+const SNAPSHOT_HASH_PREFIX = '#snapshot=';
+
+// Settings that shape the generated city.
+const MAP_SETTINGS: Array<keyof SimulationConfig> = ['cityLayout', 'cityWidth', 'cityHeight', 'oneWayFraction', 'noUTurn', 'noLeftTurn', 'numChargingStations'];
 
 function App() {
-	const [states, setStates] = useState<SimStates | null>(null);
-	const [greedyMetrics, setGreedyMetrics] = useState<Metrics | null>(null);
-	const [optimizedMetrics, setOptimizedMetrics] = useState<Metrics | null>(null);
-	const [isRunning, setIsRunning] = useState(false);
-	const [speed, setSpeed] = useState(1);
+	const { view, send, request } = useEngine();
+	const [speed, setSpeed] = useState<EngineSpeed>(1);
 	const [pendingPickup, setPendingPickup] = useState<Position | null>(null);
-
-	const randomRef = useRef(seededRandom(SEED + 5000));
-	const intervalRef = useRef<number | null>(null);
-	const burstFiredRef = useRef(false);
-
+	const [showZones, setShowZones] = useState(false);
+	const [showLedger, setShowLedger] = useState(false);
+	const [showCharts, setShowCharts] = useState(true);
+	const [overlay, setOverlay] = useState<HeatmapKind | 'none'>('none');
+	const [editTool, setEditTool] = useState<EditTool | null>(null);
+	const [customCity, setCustomCity] = useState<City | null>(null);
+	const [closingRoads, setClosingRoads] = useState(false);
+	const [showSettings, setShowSettings] = useState(false);
+
+	// The edited map, if any; read through a ref so a fast brush stroke never paints on a stale city.
+	const cityRef = useRef<City | null>(null);
+
+	const seed = view?.seed ?? DEFAULT_SEED;
+	const config = view?.config ?? DEFAULT_CONFIG;
+	const laneSpecs = view?.specs ?? [];
+	const lanes = view?.lanes ?? [];
+	const isRunning = view?.running ?? false;
+	const trace = view?.trace ?? null;
+
+	// Start a fresh run with the settings in the query string, or open the
+	// moment encoded in a shared link if the page was loaded from one.
 	useEffect(() => {
-		const greedy = createSimulation(CONFIG, SEED);
-		const optimized = cloneSimulationState(greedy);
-
-		setStates({ greedy, optimized });
-		setGreedyMetrics(calculateMetrics(greedy));
-		setOptimizedMetrics(calculateMetrics(optimized));
-	}, []);
-
-	const tick = useCallback(() => {
-		if (!states) return;
-
-		const newPassengers: Passenger[] = [];
-		if (states.greedy.tick % CONFIG.ticksPerSpawnCheck === 0) {
-			const burstRoll = randomRef.current();
-			if (!burstFiredRef.current && burstRoll < CONFIG.burstChance) {
-				const burstSize = CONFIG.burstMinSize +
-					Math.floor(randomRef.current() * (CONFIG.burstMaxSize - CONFIG.burstMinSize + 1));
-				for (let i = 0; i < burstSize; i++) {
-					newPassengers.push(spawnPassengers(states.greedy.city, states.greedy.tick, randomRef.current));
-				}
-			} else if (randomRef.current() < CONFIG.passengerSpawnChance) {
-				newPassengers.push(spawnPassengers(states.greedy.city, states.greedy.tick, randomRef.current));
-			}
+		const settings = settingsFromQuery(window.location.search);
+		const invalid = Object.keys(settings.errors);
+		if (invalid.length > 0) {
+			console.warn(`[SETTINGS] Ignoring invalid settings in the URL: ${invalid.join(', ')}`);
 		}
+		if (new URLSearchParams(window.location.search).has('debug')) {
+			send({ type: 'setDebugLogging', enabled: true });
+		}
+		send({
+			type: 'reset',
+			seed: settings.seed,
+			config: settings.config,
+			specs: listStrategies().map(s => ({ strategyId: s.id, repositioningId: 'none' })),
+			city: null,
+		});
 
-		setStates(prev => {
-			if (!prev) return prev;
-
-			const greedy = cloneSimulationState(prev.greedy);
-			const optimized = cloneSimulationState(prev.optimized);
+		const { hash } = window.location;
+		if (!hash.startsWith(SNAPSHOT_HASH_PREFIX)) return;
 
-			tickSimulation(greedy);
-			tickSimulation(optimized);
+		decodeSnapshot(hash.slice(SNAPSHOT_HASH_PREFIX.length))
+			.then(snapshot => request({ type: 'restore', snapshot }))
+			.then(city => {
+				cityRef.current = city;
+				setCustomCity(city);
+			})
+			.catch(error => console.error('[SNAPSHOT] Failed to open shared snapshot', error));
+	}, [send, request]);
 
-			for (const passenger of newPassengers) {
-				greedy.waitingPassengers.push({ ...passenger });
-				optimized.waitingPassengers.push({
-					...passenger,
-					id: passenger.id + '-opt',
-					assignedTaxiId: undefined
-				});
-			}
+	const reset = (specs: LaneSpec[] = laneSpecs, runConfig: SimulationConfig = config, runSeed = seed) => {
+		setPendingPickup(null);
+		send({ type: 'reset', seed: runSeed, config: runConfig, specs, city: cityRef.current });
+	};
 
-			assignGreedy(greedy);
-			assignOptimized(optimized, CONFIG.queueSize, optimizer);
+	// Settings live in the query string so a scenario can be bookmarked. A new
+	// seed or city shape replaces any edited map, since the edits were made on the old one.
+	const applySettings = (nextConfig: SimulationConfig, nextSeed: number) => {
+		const query = settingsToQuery(nextConfig, nextSeed);
+		window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
 
-			for (const p of greedy.waitingPassengers) {
-				if (!p.assignedTaxiId && (greedy.tick - p.spawnTick) > 100) {
-					console.error(`[GREEDY] Passenger ${p.id} stuck waiting for ${greedy.tick - p.spawnTick} ticks at (${p.pickup.x}, ${p.pickup.y})`);
-				}
-			}
+		const reshaped = nextSeed !== seed || MAP_SETTINGS.some(key => nextConfig[key] !== config[key]);
+		if (reshaped) {
+			cityRef.current = null;
+			setCustomCity(null);
+		}
+		setShowSettings(false);
+		reset(laneSpecs, nextConfig, nextSeed);
+	};
 
-			for (const p of optimized.waitingPassengers) {
-				if (!p.assignedTaxiId && (optimized.tick - p.spawnTick) > 100) {
-					console.error(`[OPTIMIZER] Passenger ${p.id} stuck waiting for ${optimized.tick - p.spawnTick} ticks at (${p.pickup.x}, ${p.pickup.y})`);
-				}
-			}
+	// Lanes only stay comparable if they share the whole passenger stream, so
+	// changing the lane setup restarts the run rather than adding a lane mid-way.
+	const changeLanes = (specs: LaneSpec[]) => {
+		reset(specs);
+	};
 
-			setGreedyMetrics(calculateMetrics(greedy));
-			setOptimizedMetrics(calculateMetrics(optimized));
+	const changeSpeed = (next: EngineSpeed) => {
+		setSpeed(next);
+		send({ type: 'setSpeed', speed: next });
+	};
 
-			return { greedy, optimized };
-		});
-	}, [states]);
+	const seek = (target: number) => {
+		send({ type: 'seek', tick: target });
+	};
 
-	useEffect(() => {
-		if (isRunning) {
-			intervalRef.current = window.setInterval(tick, TICK_INTERVAL_MS / speed);
-		} else if (intervalRef.current) {
-			clearInterval(intervalRef.current);
-			intervalRef.current = null;
+	const handleCellClick = useCallback((position: Position) => {
+		if (!pendingPickup) {
+			setPendingPickup(position);
+		} else {
+			if (position.x !== pendingPickup.x || position.y !== pendingPickup.y) {
+				send({ type: 'addPassenger', pickup: pendingPickup, destination: position });
+			}
+			setPendingPickup(null);
 		}
+	}, [pendingPickup, send]);
+
+	const toggleRoad = (position: Position) => {
+		const { city } = lanes[0].state;
+		send({ type: 'setRoadsClosed', cells: [position], closed: city.grid[position.y][position.x] === 'road' });
+	};
 
-		return () => {
-			if (intervalRef.current) {
-				clearInterval(intervalRef.current);
+	const loadTrace = async () => {
+		const file = await pickTextFile('.jsonl,.csv,.json,.txt');
+		if (!file) return;
+
+		try {
+			const source = createTraceSource(file.name, detectTraceFormat(file.text), parseTrace(file.text), lanes[0].state.city);
+			if (source.skipped > 0) {
+				console.warn(`[TRACE] Skipped ${source.skipped} trips that could not be mapped onto the road network`);
 			}
-		};
-	}, [isRunning, speed, tick]);
+			setPendingPickup(null);
+			send({ type: 'setTrace', trace: source });
+		} catch (error) {
+			console.error('[TRACE] Failed to load trace', error);
+			window.alert(`Could not load ${file.name}: ${error instanceof Error ? error.message : error}`);
+		}
+	};
 
-	const reset = () => {
-		setIsRunning(false);
-		randomRef.current = seededRandom(SEED + 5000);
-		burstFiredRef.current = false;
+	const clearTrace = () => {
 		setPendingPickup(null);
+		send({ type: 'setTrace', trace: null });
+	};
 
-		const greedy = createSimulation(CONFIG, SEED);
-		const optimized = cloneSimulationState(greedy);
+	const exportTrace = async () => {
+		const format = trace?.format ?? 'jsonl';
+		try {
+			const records = await request({ type: 'exportTrace' });
+			downloadText(`trace-${seed}-tick-${lanes[0]?.state.tick ?? 0}.${format}`, formatTrace(records, format));
+		} catch (error) {
+			console.error('[TRACE] Failed to export trace', error);
+			window.alert(`Could not export the trace: ${error instanceof Error ? error.message : error}`);
+		}
+	};
 
-		setStates({ greedy, optimized });
-		setGreedyMetrics(calculateMetrics(greedy));
-		setOptimizedMetrics(calculateMetrics(optimized));
+	// Any edit restarts the run: taxis and passengers may sit on cells that are no longer road.
+	const applyCity = (city: City | null) => {
+		cityRef.current = city;
+		setCustomCity(city);
+		reset();
 	};
 
-	const handleCellClick = useCallback((position: Position) => {
-		if (!states) return;
+	const paint = (position: Position) => {
+		if (!editTool) return;
+		const base = cityRef.current ?? lanes[0].state.city;
+		const city = paintCell(base, position, editTool);
+		if (city !== base) {
+			applyCity(city);
+		}
+	};
 
-		if (!pendingPickup) {
-			setPendingPickup(position);
-		} else {
-			if (position.x === pendingPickup.x && position.y === pendingPickup.y) {
-				setPendingPickup(null);
-				return;
-			}
+	const saveMap = () => {
+		downloadText(`map-${seed}.json`, formatMapFile(lanes[0].state.city), 'application/json');
+	};
+
+	const saveTextMap = () => {
+		downloadText(`map-${seed}.txt`, formatAsciiMap(lanes[0].state.city));
+	};
 
-			const manualPassenger: Passenger = {
-				id: `manual-${manualPassengerIdCounter++}`,
-				pickup: pendingPickup,
-				destination: position,
-				spawnTick: states.greedy.tick,
-			};
+	const changeLayout = (cityLayout: string) => {
+		applySettings({ ...config, cityLayout }, seed);
+	};
 
-			setStates(prev => {
-				if (!prev) return prev;
+	const loadMap = async () => {
+		const file = await pickTextFile('.json,.txt');
+		if (!file) return;
 
-				const greedy = cloneSimulationState(prev.greedy);
-				const optimized = cloneSimulationState(prev.optimized);
+		try {
+			applyCity(parseMapFile(file.text));
+		} catch (error) {
+			console.error('[MAP] Failed to load map', error);
+			window.alert(`Could not load ${file.name}: ${error instanceof Error ? error.message : error}`);
+		}
+	};
 
-				greedy.waitingPassengers.push({ ...manualPassenger });
-				optimized.waitingPassengers.push({
-					...manualPassenger,
-					id: manualPassenger.id + '-opt',
-					assignedTaxiId: undefined
-				});
+	const toggleEditing = () => {
+		send({ type: 'pause' });
+		setPendingPickup(null);
+		setClosingRoads(false);
+		setEditTool(tool => (tool ? null : 'road'));
+	};
 
-				assignGreedy(greedy);
-				assignOptimized(optimized, CONFIG.queueSize, optimizer);
+	const toggleClosing = () => {
+		setPendingPickup(null);
+		setEditTool(null);
+		setClosingRoads(closing => !closing);
+	};
 
-				setGreedyMetrics(calculateMetrics(greedy));
-				setOptimizedMetrics(calculateMetrics(optimized));
+	const saveSnapshot = async () => {
+		try {
+			const snapshot = await request({ type: 'save' });
+			downloadText(`snapshot-${seed}-tick-${lanes[0].state.tick}.json`, JSON.stringify(snapshot), 'application/json');
+		} catch (error) {
+			console.error('[SNAPSHOT] Failed to save snapshot', error);
+			window.alert(`Could not save the snapshot: ${error instanceof Error ? error.message : error}`);
+		}
+	};
 
-				return { greedy, optimized };
-			});
+	const loadSnapshot = async () => {
+		const file = await pickTextFile('.json');
+		if (!file) return;
 
+		try {
+			// Later resets start from the snapshot's map rather than regenerating one from the seed.
+			const city = await request({ type: 'restore', snapshot: parseSnapshot(file.text) });
+			cityRef.current = city;
+			setCustomCity(city);
 			setPendingPickup(null);
+		} catch (error) {
+			console.error('[SNAPSHOT] Failed to load snapshot', error);
+			window.alert(`Could not load ${file.name}: ${error instanceof Error ? error.message : error}`);
+		}
+	};
+
+	const shareSnapshot = async () => {
+		let url: string;
+		try {
+			const encoded = await encodeSnapshot(await request({ type: 'save' }));
+			url = `${window.location.origin}${window.location.pathname}${window.location.search}${SNAPSHOT_HASH_PREFIX}${encoded}`;
+		} catch (error) {
+			console.error('[SNAPSHOT] Failed to share snapshot', error);
+			window.alert(`Could not create a share link: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+		window.history.replaceState(null, '', url);
+		try {
+			await navigator.clipboard.writeText(url);
+		} catch {
+			// Clipboard access can be refused; the link is still in the address bar.
 		}
-	}, [states, pendingPickup]);
+	};
 
-	if (!states || !greedyMetrics || !optimizedMetrics) {
-		return <div style={{ color: '#f1f5f9', padding: 20, fontFamily: '"Inter", system-ui, sans-serif' }}>Loading...</div>;
+	if (!view) {
+		return <div style={{ background: '#0a0e27', minHeight: '100vh' }} />;
 	}
 
-	const canvasWidth = Math.floor((window.innerWidth - 40) / 2);
-	const canvasHeight = window.innerHeight - 80;
+	const hour = hourOfDay(lanes[0]?.state.tick ?? 0, config);
+	const clock = `${String(Math.floor(hour)).padStart(2, '0')}:${String(Math.floor((hour % 1) * 60)).padStart(2, '0')}`;
+	const shiftTaxis = config.shifts.reduce((sum, block) => sum + block.taxis, 0);
+	const components = editTool ? roadComponents(lanes[0].state.city) : null;
+	const disconnectedCells = components
+		? components.sizes.reduce((sum, size) => sum + size, 0) - (components.sizes[components.main] ?? 0)
+		: 0;
+
+	const laneCount = Math.max(lanes.length, 1);
+	const canvasWidth = Math.floor((window.innerWidth - 24 - 12 * (laneCount - 1)) / laneCount);
+	const chartsHeight = 180;
+	const canvasHeight = window.innerHeight - 130 - (showCharts ? chartsHeight + 12 : 0);
 
 	const buttonStyle = (color: string, disabled = false) => ({
 		padding: '10px 24px',
@@ -217,6 +296,16 @@ function App() {
 		boxShadow: disabled ? 'none' : '0 2px 8px rgba(0, 0, 0, 0.15)',
 	});
 
+	const toggleStyle = {
+		color: '#94a3b8',
+		display: 'flex',
+		alignItems: 'center',
+		gap: 6,
+		fontSize: '14px',
+		fontWeight: '500',
+		cursor: 'pointer',
+	};
+
 	return (
 		<div style={{
 			background: '#0a0e27',
@@ -234,20 +323,20 @@ function App() {
 				background: 'linear-gradient(180deg, #0f1420 0%, #0a0e27 100%)',
 			}}>
 				<button
-					onClick={() => setIsRunning(!isRunning)}
+					onClick={() => send({ type: isRunning ? 'pause' : 'start' })}
 					style={buttonStyle(isRunning ? '#ef4444' : '#10b981')}
 				>
 					{isRunning ? '⏸ Pause' : '▶ Start'}
 				</button>
 				<button
-					onClick={tick}
+					onClick={() => send({ type: 'step' })}
 					disabled={isRunning}
 					style={buttonStyle('#06b6d4', isRunning)}
 				>
 					⏭ Step
 				</button>
 				<button
-					onClick={reset}
+					onClick={() => reset()}
 					style={buttonStyle('#64748b')}
 				>
 					↻ Reset
@@ -264,7 +353,7 @@ function App() {
 					Speed:
 					<select
 						value={speed}
-						onChange={e => setSpeed(Number(e.target.value))}
+						onChange={e => changeSpeed(e.target.value === 'max' ? 'max' : Number(e.target.value))}
 						style={{
 							padding: '6px 12px',
 							background: '#1e293b',
@@ -282,8 +371,143 @@ function App() {
 						<option value={2}>2x</option>
 						<option value={4}>4x</option>
 						<option value={8}>8x</option>
+						<option value="max">Max</option>
 					</select>
 				</div>
+				<button
+					onClick={() => setShowSettings(open => !open)}
+					style={buttonStyle(showSettings ? '#0e7490' : '#334155')}
+					title="Change the fleet, demand, roads and fares; applying restarts the run"
+				>
+					⚙ Settings
+				</button>
+				<button
+					onClick={loadTrace}
+					style={buttonStyle('#334155')}
+					title="Replay passengers from a JSONL or CSV trace instead of the spawner"
+				>
+					⇪ Trace
+				</button>
+				{trace && (
+					<button
+						onClick={clearTrace}
+						style={buttonStyle('#7c3aed')}
+						title="Go back to the random spawner"
+					>
+						{trace.name} ({trace.length}) ✕
+					</button>
+				)}
+				<button
+					onClick={toggleEditing}
+					style={buttonStyle(editTool ? '#0e7490' : '#334155')}
+					title="Paint roads, buildings and pickup spots"
+				>
+					✏️ Edit map
+				</button>
+				<button
+					onClick={toggleClosing}
+					style={buttonStyle(closingRoads ? '#b91c1c' : '#334155')}
+					title="Click road cells to close or reopen them while the run goes on"
+				>
+					🚧 Close roads
+				</button>
+				<button
+					onClick={exportTrace}
+					style={buttonStyle('#334155')}
+					title="Download every passenger of this run in trace format"
+				>
+					⇩ Export
+				</button>
+				<button
+					onClick={saveSnapshot}
+					style={buttonStyle('#334155')}
+					title="Download the full state of every lane"
+				>
+					💾 Save
+				</button>
+				<button
+					onClick={loadSnapshot}
+					style={buttonStyle('#334155')}
+					title="Restore a downloaded snapshot"
+				>
+					📂 Load
+				</button>
+				<button
+					onClick={shareSnapshot}
+					style={buttonStyle('#334155')}
+					title="Copy a link that opens this exact moment"
+				>
+					🔗 Share
+				</button>
+				<label style={toggleStyle}>
+					<input
+						type="checkbox"
+						checked={showZones}
+						onChange={e => setShowZones(e.target.checked)}
+					/>
+					Zones
+				</label>
+				<label style={toggleStyle}>
+					<input
+						type="checkbox"
+						checked={showLedger}
+						onChange={e => setShowLedger(e.target.checked)}
+					/>
+					Per-taxi
+				</label>
+				<label style={toggleStyle}>
+					<input
+						type="checkbox"
+						checked={showCharts}
+						onChange={e => setShowCharts(e.target.checked)}
+					/>
+					Charts
+				</label>
+				<label style={toggleStyle}>
+					Layout:
+					<select
+						value={config.cityLayout}
+						onChange={e => changeLayout(e.target.value)}
+						style={{
+							padding: '6px 12px',
+							background: '#1e293b',
+							color: '#f1f5f9',
+							border: '1px solid #334155',
+							borderRadius: '6px',
+							fontSize: '14px',
+							fontFamily: '"Inter", system-ui, sans-serif',
+							cursor: 'pointer',
+							fontWeight: '500',
+						}}
+					>
+						{listLayouts().map(layout => (
+							<option key={layout.id} value={layout.id}>{layout.label}</option>
+						))}
+					</select>
+				</label>
+				<label style={toggleStyle}>
+					Overlay:
+					<select
+						value={overlay}
+						onChange={e => setOverlay(e.target.value as HeatmapKind | 'none')}
+						style={{
+							padding: '6px 12px',
+							background: '#1e293b',
+							color: '#f1f5f9',
+							border: '1px solid #334155',
+							borderRadius: '6px',
+							fontSize: '14px',
+							fontFamily: '"Inter", system-ui, sans-serif',
+							cursor: 'pointer',
+							fontWeight: '500',
+						}}
+					>
+						<option value="none">None</option>
+						{(Object.keys(HEATMAP_LABELS) as HeatmapKind[]).map(kind => (
+							<option key={kind} value={kind}>{HEATMAP_LABELS[kind]}</option>
+						))}
+					</select>
+				</label>
 				{pendingPickup && (
 					<div style={{
 						color: '#fb923c',
@@ -298,40 +522,86 @@ function App() {
 						📍 Click destination...
 					</div>
 				)}
+				<StrategyPicker
+					strategies={listStrategies()}
+					lanes={laneSpecs}
+					onChange={changeLanes}
+				/>
 				<div style={{
 					color: '#64748b',
 					marginLeft: 'auto',
 					fontSize: '13px',
 					fontWeight: '500',
 				}}>
-					🚕 {CONFIG.numTaxis} Taxis • 📋 Queue {CONFIG.queueSize} • 🗺️ {CONFIG.cityWidth}×{CONFIG.cityHeight}
+					🕐 {clock} • 🚕 {config.numTaxis} Taxis{shiftTaxis > 0 && ` + ${shiftTaxis} on shifts`} • 📋 Queue {config.queueSize} • 🗺️ {config.cityWidth}×{config.cityHeight}
 				</div>
 			</div>
+			{showSettings && (
+				<SettingsPanel
+					config={config}
+					seed={seed}
+					onApply={applySettings}
+					onClose={() => setShowSettings(false)}
+				/>
+			)}
+			{editTool ? (
+				<MapEditorBar
+					tool={editTool}
+					onToolChange={setEditTool}
+					disconnectedCells={disconnectedCells}
+					onSave={saveMap}
+					onSaveText={saveTextMap}
+					onLoad={loadMap}
+					onRevert={customCity ? () => applyCity(null) : undefined}
+					onDone={toggleEditing}
+				/>
+			) : (
+				<TimelineBar
+					firstTick={view.firstTick}
+					lastTick={view.lastTick}
+					tick={lanes[0].state.tick}
+					onSeek={seek}
+				/>
+			)}
 			<div style={{
 				display: 'flex',
 				flex: 1,
 				gap: 12,
 				padding: 12,
 			}}>
-				<CityCanvas
-					state={states.greedy}
-					metrics={greedyMetrics}
-					title="Greedy Assignment (Nearest Taxi)"
-					width={canvasWidth}
-					height={canvasHeight}
-					onCellClick={handleCellClick}
-					pendingPickup={pendingPickup}
-				/>
-				<CityCanvas
-					state={states.optimized}
-					metrics={optimizedMetrics}
-					title="Optimized Assignment"
-					width={canvasWidth}
-					height={canvasHeight}
-					onCellClick={handleCellClick}
-					pendingPickup={pendingPickup}
-				/>
+				{lanes.map((lane, idx) => (
+					<CityCanvas
+						key={lane.id}
+						state={lane.state}
+						metrics={lane.metrics}
+						title={laneTitle(lane)}
+						controls={
+							<LaneControls
+								policies={listRepositioningPolicies()}
+								lanes={laneSpecs}
+								index={idx}
+								onChange={changeLanes}
+							/>
+						}
+						width={canvasWidth}
+						height={canvasHeight}
+						onCellClick={handleCellClick}
+						pendingPickup={pendingPickup}
+						zones={showZones ? view.zones : undefined}
+						showLedger={showLedger}
+						report={summarizeCollector(lane.collector)}
+						heatmap={overlay !== 'none' ? computeHeatmap(overlay, lane.state, lane.collector) : undefined}
+						editTool={editTool}
+						onCellPaint={paint}
+						onRoadToggle={closingRoads ? toggleRoad : undefined}
+					/>
+				))}
 			</div>
+			{showCharts && (
+				<div style={{ padding: '0 12px 12px' }}>
+					<ChartsPanel lanes={lanes} width={window.innerWidth - 24} height={chartsHeight} />
+				</div>
+			)}
 		</div>
 	);
 }
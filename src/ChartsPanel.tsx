@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { laneTitle, type Lane } from './lanes';
+import type { CollectorStore, MetricsCollector } from './collector';
+
+interface ChartsPanelProps {
+	lanes: Lane[];
+	width: number;
+	height: number;
+}
+
+type ChartId = 'queue' | 'wait' | 'served' | 'utilization';
+
+interface ChartSpec {
+	id: ChartId;
+	label: string;
+	format: (value: number) => string;
+	/** Fixed top of the y axis; otherwise the largest value across lanes. */
+	max?: number;
+}
+
+interface LaneSeries {
+	title: string;
+	color: string;
+	firstTick: number;
+	values: Record<ChartId, number[]>;
+	/** Largest value of each chart so far. */
+	peaks: Record<ChartId, number>;
+}
+
+interface SeriesCache {
+	ticks: number;
+	// Passengers are recorded in delivery order, so the wait window slides with two cursors.
+	from: number;
+	to: number;
+	waitSum: number;
+	lastWait: number;
+	values: Record<ChartId, number[]>;
+	peaks: Record<ChartId, number>;
+}
+
+const ROLLING_WINDOW = 50;
+const MAX_POINTS = 300;
+const LEGEND_HEIGHT = 18;
+const PADDING = { top: 22, right: 8, bottom: 18, left: 36 };
+const LANE_COLORS = ['#fbbf24', '#06b6d4', '#f472b6', '#4ade80', '#a78bfa', '#fb923c'];
+
+const CHARTS: ChartSpec[] = [
+	{ id: 'queue', label: 'Waiting queue', format: v => v.toFixed(0) },
+	{ id: 'wait', label: `Avg wait (last ${ROLLING_WINDOW} ticks)`, format: v => v.toFixed(1) },
+	{ id: 'served', label: 'Served', format: v => v.toFixed(0) },
+	{ id: 'utilization', label: 'Utilization', format: v => `${(v * 100).toFixed(0)}%`, max: 1 },
+];
+
+const CHART_IDS = CHARTS.map(chart => chart.id);
+
+// Curves per store, extended by the ticks added since the last render instead of redrawn from the start.
+const seriesCache = new WeakMap<CollectorStore, SeriesCache>();
+
+function emptyCache(): SeriesCache {
+	return {
+		ticks: 0,
+		from: 0,
+		to: 0,
+		waitSum: 0,
+		lastWait: 0,
+		values: { queue: [], wait: [], served: [], utilization: [] },
+		peaks: { queue: 0, wait: 0, served: 0, utilization: 0 },
+	};
+}
+
+function laneSeries(collector: MetricsCollector): Pick<LaneSeries, 'values' | 'peaks'> {
+	const { store, ticks } = collector;
+	const { series, passengers } = store;
+	let cache = seriesCache.get(store);
+	if (!cache) {
+		cache = emptyCache();
+		seriesCache.set(store, cache);
+	}
+
+	for (; cache.ticks < ticks; cache.ticks++) {
+		const sample = series[cache.ticks];
+		while (cache.to < passengers.length && passengers[cache.to].deliveredTick <= sample.tick) {
+			cache.waitSum += passengers[cache.to++].wait;
+		}
+		while (cache.from < cache.to && passengers[cache.from].deliveredTick <= sample.tick - ROLLING_WINDOW) {
+			cache.waitSum -= passengers[cache.from++].wait;
+		}
+		// Hold the last average through quiet stretches instead of dropping to zero.
+		cache.lastWait = cache.to > cache.from ? cache.waitSum / (cache.to - cache.from) : cache.lastWait;
+
+		const point: Record<ChartId, number> = {
+			queue: sample.waiting,
+			wait: cache.lastWait,
+			served: sample.served,
+			utilization: sample.activeTaxis > 0 ? sample.busyTaxis / sample.activeTaxis : 0,
+		};
+		for (const id of CHART_IDS) {
+			cache.values[id].push(point[id]);
+			cache.peaks[id] = Math.max(cache.peaks[id], point[id]);
+		}
+	}
+
+	if (ticks === cache.ticks) return cache;
+
+	// A frame behind the tip sees the start of the same curves.
+	const values = { ...cache.values };
+	const peaks = { ...cache.peaks };
+	for (const id of CHART_IDS) {
+		values[id] = values[id].slice(0, ticks);
+		peaks[id] = values[id].reduce((a, b) => Math.max(a, b), 0);
+	}
+	return { values, peaks };
+}
+
+function linePath(values: number[], firstTick: number, x: (tick: number) => number, y: (value: number) => number): string {
+	const stride = Math.max(1, Math.ceil(values.length / MAX_POINTS));
+	const points: string[] = [];
+	for (let i = 0; i < values.length; i += stride) {
+		points.push(`${x(firstTick + i).toFixed(1)},${y(values[i]).toFixed(1)}`);
+	}
+	if ((values.length - 1) % stride !== 0) {
+		points.push(`${x(firstTick + values.length - 1).toFixed(1)},${y(values[values.length - 1]).toFixed(1)}`);
+	}
+	return points.length > 0 ? `M${points.join('L')}` : '';
+}
+
+/** Per-lane curves on shared axes; follows whatever tick the timeline shows. */
+export function ChartsPanel({ lanes, width, height }: ChartsPanelProps) {
+	const [hoverTick, setHoverTick] = useState<number | null>(null);
+
+	const series = useMemo(() => lanes.map((lane, idx): LaneSeries => ({
+		title: laneTitle(lane),
+		color: LANE_COLORS[idx % LANE_COLORS.length],
+		firstTick: lane.collector.store.series[0]?.tick ?? 0,
+		...laneSeries(lane.collector),
+	})), [lanes]);
+
+	const firstTick = Math.min(...series.map(s => s.firstTick));
+	const lastTick = Math.max(...series.map(s => s.firstTick + s.values.queue.length - 1));
+	const tickSpan = Math.max(lastTick - firstTick, 1);
+
+	const gap = 12;
+	const chartWidth = (width - gap * (CHARTS.length - 1)) / CHARTS.length;
+	const plotWidth = chartWidth - PADDING.left - PADDING.right;
+	const chartHeight = height - LEGEND_HEIGHT;
+	const plotHeight = chartHeight - PADDING.top - PADDING.bottom;
+	const x = (tick: number) => PADDING.left + ((tick - firstTick) / tickSpan) * plotWidth;
+
+	const valueAt = (lane: LaneSeries, id: ChartId, tick: number) => {
+		const values = lane.values[id];
+		const idx = Math.min(Math.max(tick - lane.firstTick, 0), values.length - 1);
+		return values[idx];
+	};
+
+	const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+		const rect = e.currentTarget.getBoundingClientRect();
+		const ratio = (e.clientX - rect.left - PADDING.left) / plotWidth;
+		setHoverTick(Math.round(firstTick + Math.min(Math.max(ratio, 0), 1) * tickSpan));
+	};
+
+	return (
+		<div style={{ width, height, fontFamily: '"Inter", system-ui, sans-serif' }}>
+			<div style={{ display: 'flex', gap: 16, height: LEGEND_HEIGHT, fontSize: '11px', fontWeight: '500' }}>
+				{series.map((lane, idx) => (
+					<span key={idx} style={{ color: lane.color }}>● {lane.title}</span>
+				))}
+			</div>
+			<div style={{ display: 'flex', gap }}>
+				{CHARTS.map(chart => {
+					const max = chart.max ?? series.reduce((m, s) => Math.max(m, s.peaks[chart.id]), 1);
+					const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+					// Keep the readout on the roomier side of the cursor.
+					const hoverX = hoverTick !== null ? x(hoverTick) : 0;
+					const flip = hoverX > PADDING.left + plotWidth / 2;
+					const labelX = flip ? hoverX - 6 : hoverX + 6;
+
+					return (
+						<svg
+							key={chart.id}
+							width={chartWidth}
+							height={chartHeight}
+							onMouseMove={handleMove}
+							onMouseLeave={() => setHoverTick(null)}
+							style={{ background: 'rgba(30, 41, 59, 0.5)', borderRadius: '8px', cursor: 'crosshair' }}
+						>
+							<text x={PADDING.left} y={14} fill="#94a3b8" fontSize={11} fontWeight={500}>
+								{chart.label}
+							</text>
+							<line x1={PADDING.left} x2={PADDING.left + plotWidth} y1={y(0)} y2={y(0)} stroke="#334155" />
+							<text x={PADDING.left - 4} y={y(max) + 4} fill="#64748b" fontSize={10} textAnchor="end">
+								{chart.format(max)}
+							</text>
+							<text x={PADDING.left - 4} y={y(0)} fill="#64748b" fontSize={10} textAnchor="end">
+								{chart.format(0)}
+							</text>
+							<text x={PADDING.left} y={chartHeight - 4} fill="#64748b" fontSize={10}>{firstTick}</text>
+							<text x={PADDING.left + plotWidth} y={chartHeight - 4} fill="#64748b" fontSize={10} textAnchor="end">
+								{lastTick}
+							</text>
+
+							{series.map((lane, idx) => (
+								<path
+									key={idx}
+									d={linePath(lane.values[chart.id], lane.firstTick, x, y)}
+									fill="none"
+									stroke={lane.color}
+									strokeWidth={1.5}
+								/>
+							))}
+
+							{hoverTick !== null && (
+								<g pointerEvents="none">
+									<line x1={hoverX} x2={hoverX} y1={PADDING.top} y2={y(0)} stroke="#94a3b8" strokeDasharray="3 3" />
+									{series.map((lane, idx) => (
+										<circle key={idx} cx={hoverX} cy={y(valueAt(lane, chart.id, hoverTick))} r={3} fill={lane.color} />
+									))}
+									<text x={labelX} y={PADDING.top + 10} fontSize={10} textAnchor={flip ? 'end' : 'start'}>
+										<tspan fill="#f1f5f9">Tick {hoverTick}</tspan>
+										{series.map((lane, idx) => (
+											<tspan key={idx} x={labelX} dy={12} fill={lane.color}>
+												{lane.title}: {chart.format(valueAt(lane, chart.id, hoverTick))}
+											</tspan>
+										))}
+									</text>
+								</g>
+							)}
+						</svg>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
@@ -1,14 +1,31 @@
-import { useRef, useEffect, useState } from 'react';
-import type { SimulationState, Metrics, Position } from './types';
+import { useRef, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { City, SimulationState, Metrics, Position, Direction } from './types';
+import { travelTimeGrid } from './traffic';
+import type { Zone, ZoneKind } from './demand';
+import { TaxiLedger } from './TaxiLedger';
+import type { MetricsReport } from './collector';
+import { heatColor, HEATMAP_LABELS, type Heatmap } from './heatmap';
+import type { EditTool } from './mapEditor';
+import { roadComponents } from './roads';
 
 interface CityCanvasProps {
   state: SimulationState;
   metrics: Metrics;
   title: string;
+  controls?: ReactNode;
   width: number;
   height: number;
   onCellClick?: (position: Position) => void;
   pendingPickup?: Position | null;
+  zones?: Zone[];
+  showLedger?: boolean;
+  report?: MetricsReport;
+  heatmap?: Heatmap;
+  /** Set while editing the map; clicks and drags then paint cells instead of placing passengers. */
+  editTool?: EditTool | null;
+  onCellPaint?: (position: Position) => void;
+  /** Set in closure mode; clicks then close or reopen road cells instead of placing passengers. */
+  onRoadToggle?: (position: Position) => void;
 }
 
 const COLORS = {
@@ -19,10 +36,32 @@ const COLORS = {
   taxi: '#fbbf24',
   taxiPickingUp: '#f87171',
   taxiDelivering: '#34d399',
+  taxiRepositioning: '#a78bfa',
+  taxiCharging: '#60a5fa',
+  taxiOffShift: '#64748b',
   passenger: '#ec4899',
+  passengerCutOff: '#94a3b8',
   destination: '#06b6d4',
   highlight: '#fb923c',
   highlightGlow: 'rgba(251, 146, 60, 0.3)',
+  route: 'rgba(148, 163, 184, 0.45)',
+  congestion: '239, 68, 68',
+  oneWayArrow: 'rgba(148, 163, 184, 0.55)',
+  onboardText: '#0a0e27',
+  chargingStation: '#38bdf8',
+  batteryTrack: 'rgba(15, 23, 42, 0.85)',
+  batteryOk: '#4ade80',
+  batteryLow: '#f87171',
+  pickupSpot: '#ec4899',
+  disconnected: 'rgba(239, 68, 68, 0.45)',
+  closedRoad: '#ef4444',
+  minimapBorder: '#334155',
+};
+
+const ZONE_COLORS: Record<ZoneKind, string> = {
+  residential: '96, 165, 250',
+  commercial: '250, 204, 21',
+  nightlife: '192, 132, 252',
 };
 
 function roundRect(
@@ -46,16 +85,204 @@ function roundRect(
   ctx.closePath();
 }
 
-function GridCanvas({ state, width, height, onCellClick, pendingPickup }: CityCanvasProps) {
+const ARROW_ANGLES: Record<Direction, number> = {
+  east: 0,
+  south: Math.PI / 2,
+  west: Math.PI,
+  north: -Math.PI / 2,
+};
+
+function drawArrow(ctx: CanvasRenderingContext2D, cx: number, cy: number, size: number, dir: Direction) {
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate(ARROW_ANGLES[dir]);
+  ctx.beginPath();
+  ctx.moveTo(-size * 0.15, -size * 0.2);
+  ctx.lineTo(size * 0.15, 0);
+  ctx.lineTo(-size * 0.15, size * 0.2);
+  ctx.stroke();
+  ctx.restore();
+}
+
+interface Viewport {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+interface GridLayout {
+  cellSize: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface CellRange {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+const PADDING = 8;
+const MAX_ZOOM = 8;
+const MINIMAP_SIZE = 120;
+// Largest side of the cached road layer; big maps get fewer pixels per cell.
+const MAX_LAYER_SIZE = 4096;
+
+// A grid wider than the canvas can be dragged until its far edge shows; a smaller one stays centred.
+function clampPan(pan: number, gridSize: number, viewSize: number): number {
+  const slack = Math.max(0, (gridSize - viewSize) / 2 + PADDING);
+  return Math.min(Math.max(pan, -slack), slack);
+}
+
+function gridLayout(width: number, height: number, city: City, viewport: Viewport): GridLayout {
+  const fit = Math.min((width - PADDING * 2) / city.width, (height - PADDING * 2) / city.height);
+  const cellSize = fit * viewport.zoom;
+  const gridWidth = cellSize * city.width;
+  const gridHeight = cellSize * city.height;
+  return {
+    cellSize,
+    offsetX: (width - gridWidth) / 2 + clampPan(viewport.panX, gridWidth, width),
+    offsetY: (height - gridHeight) / 2 + clampPan(viewport.panY, gridHeight, height),
+  };
+}
+
+/** Zooms by `factor`, keeping the point under the cursor where it is. */
+function zoomAt(viewport: Viewport, factor: number, x: number, y: number, width: number, height: number, city: City): Viewport {
+  const zoom = Math.min(Math.max(viewport.zoom * factor, 1), MAX_ZOOM);
+  const before = gridLayout(width, height, city, viewport);
+  const centred = gridLayout(width, height, city, { zoom, panX: 0, panY: 0 });
+  const cellSize = centred.cellSize;
+  return {
+    zoom,
+    panX: clampPan(x - ((x - before.offsetX) / before.cellSize) * cellSize - centred.offsetX, cellSize * city.width, width),
+    panY: clampPan(y - ((y - before.offsetY) / before.cellSize) * cellSize - centred.offsetY, cellSize * city.height, height),
+  };
+}
+
+function visibleCells(layout: GridLayout, width: number, height: number, city: City): CellRange {
+  const { cellSize, offsetX, offsetY } = layout;
+  return {
+    x0: Math.max(0, Math.floor(-offsetX / cellSize)),
+    y0: Math.max(0, Math.floor(-offsetY / cellSize)),
+    x1: Math.min(city.width, Math.ceil((width - offsetX) / cellSize)),
+    y1: Math.min(city.height, Math.ceil((height - offsetY) / cellSize)),
+  };
+}
+
+function minimapRect(width: number, height: number, city: City) {
+  const scale = MINIMAP_SIZE / Math.max(city.width, city.height);
+  const w = city.width * scale;
+  const h = city.height * scale;
+  return { x: width - w - PADDING, y: height - h - PADDING, w, h };
+}
+
+/** Roads, buildings and chargers, which only change with the city. */
+function drawStaticLayer(city: City, cellPx: number): HTMLCanvasElement {
+  const layer = document.createElement('canvas');
+  layer.width = city.width * cellPx;
+  layer.height = city.height * cellPx;
+  const ctx = layer.getContext('2d');
+  if (!ctx) return layer;
+  
+  for (let y = 0; y < city.height; y++) {
+    for (let x = 0; x < city.width; x++) {
+      const cell = city.grid[y][x];
+      const px = x * cellPx;
+      const py = y * cellPx;
+      
+      if (cell === 'road' || cell === 'closed') {
+        ctx.fillStyle = COLORS.road;
+        roundRect(ctx, px + 0.5, py + 0.5, cellPx - 1, cellPx - 1, cellPx * 0.1);
+        ctx.fill();
+      }
+      
+      if (cell === 'road') {
+        const oneWay = city.oneWay[y][x];
+        if (oneWay) {
+          ctx.strokeStyle = COLORS.oneWayArrow;
+          ctx.lineWidth = 1.5;
+          drawArrow(ctx, px + cellPx / 2, py + cellPx / 2, cellPx, oneWay);
+        }
+      } else if (cell === 'closed') {
+        const inset = cellPx * 0.25;
+        ctx.strokeStyle = COLORS.closedRoad;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(px + inset, py + inset);
+        ctx.lineTo(px + cellPx - inset, py + cellPx - inset);
+        ctx.moveTo(px + cellPx - inset, py + inset);
+        ctx.lineTo(px + inset, py + cellPx - inset);
+        ctx.stroke();
+      } else if (cell === 'building') {
+        const variation = ((x * 7 + y * 13) % 3) / 10;
+        ctx.fillStyle = variation > 0.6 ? COLORS.buildingAccent : COLORS.building;
+        const margin = cellPx * 0.12;
+        roundRect(
+          ctx,
+          px + margin,
+          py + margin,
+          cellPx - margin * 2,
+          cellPx - margin * 2,
+          cellPx * 0.15
+        );
+        ctx.fill();
+      }
+    }
+  }
+  
+  for (const station of city.chargingStations) {
+    const px = station.x * cellPx;
+    const py = station.y * cellPx;
+    ctx.strokeStyle = COLORS.chargingStation;
+    ctx.lineWidth = 1.5;
+    roundRect(ctx, px + 1.5, py + 1.5, cellPx - 3, cellPx - 3, cellPx * 0.15);
+    ctx.stroke();
+    ctx.fillStyle = COLORS.chargingStation;
+    ctx.font = `700 ${Math.floor(cellPx * 0.6)}px "Inter", system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('⚡', px + cellPx / 2, py + cellPx / 2 + 0.5);
+  }
+  
+  return layer;
+}
+
+function GridCanvas({ state, width, height, onCellClick, pendingPickup, zones, heatmap, editTool, onCellPaint, onRoadToggle }: CityCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [animationTime, setAnimationTime] = useState(0);
+  const lastPainted = useRef<string | null>(null);
+  const layerRef = useRef<{ city: City; cellPx: number; canvas: HTMLCanvasElement } | null>(null);
+  const dragRef = useRef<{ x: number; y: number; viewport: Viewport; moved: boolean } | null>(null);
+  const suppressClick = useRef(false);
+  const components = useMemo(() => (editTool ? roadComponents(state.city) : null), [editTool, state.city]);
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, panX: 0, panY: 0 });
+  const [pulseTime, setPulseTime] = useState(0);
+  const { city } = state;
+  
+  // Only the pending pickup pulses, so nothing redraws on its own otherwise.
+  useEffect(() => {
+    if (!pendingPickup) return;
+    let frame = requestAnimationFrame(function animate(time) {
+      setPulseTime(time / 1000);
+      frame = requestAnimationFrame(animate);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [pendingPickup]);
   
+  // React's wheel listener is passive, so the page would scroll along with the zoom.
   useEffect(() => {
-    const interval = setInterval(() => {
-      setAnimationTime(t => t + 0.05);
-    }, 50);
-    return () => clearInterval(interval);
-  }, []);
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * 0.0015);
+      setViewport(v => zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top, width, height, city));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [width, height, city]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -69,54 +296,100 @@ function GridCanvas({ state, width, height, onCellClick, pendingPickup }: CityCa
     canvas.height = height * dpr;
     ctx.scale(dpr, dpr);
     
-    const padding = 8;
-    const availableWidth = width - padding * 2;
-    const availableHeight = height - padding * 2;
+    const layout = gridLayout(width, height, city, viewport);
+    const { cellSize, offsetX, offsetY } = layout;
+    const { x0, y0, x1, y1 } = visibleCells(layout, width, height, city);
+    const inView = (p: Position) => p.x >= x0 && p.x < x1 && p.y >= y0 && p.y < y1;
     
-    const cellWidth = availableWidth / state.city.width;
-    const cellHeight = availableHeight / state.city.height;
-    const cellSize = Math.min(cellWidth, cellHeight);
-    
-    const gridWidth = cellSize * state.city.width;
-    const gridHeight = cellSize * state.city.height;
-    const offsetX = (width - gridWidth) / 2;
-    const offsetY = (height - gridHeight) / 2;
+    // Power-of-two sizes so the layer is only redrawn every doubling of the zoom.
+    const maxCellPx = Math.max(1, Math.floor(MAX_LAYER_SIZE / Math.max(city.width, city.height)));
+    const cellPx = Math.min(2 ** Math.ceil(Math.log2(Math.max(cellSize * dpr, 1))), maxCellPx);
+    if (!layerRef.current || layerRef.current.city !== city || layerRef.current.cellPx !== cellPx) {
+      layerRef.current = { city, cellPx, canvas: drawStaticLayer(city, cellPx) };
+    }
+    const layer = layerRef.current.canvas;
     
     ctx.fillStyle = COLORS.background;
     ctx.fillRect(0, 0, width, height);
+    if (x1 > x0 && y1 > y0) {
+      ctx.drawImage(
+        layer,
+        x0 * cellPx,
+        y0 * cellPx,
+        (x1 - x0) * cellPx,
+        (y1 - y0) * cellPx,
+        offsetX + x0 * cellSize,
+        offsetY + y0 * cellSize,
+        (x1 - x0) * cellSize,
+        (y1 - y0) * cellSize
+      );
+    }
     
-    for (let y = 0; y < state.city.height; y++) {
-      for (let x = 0; x < state.city.width; x++) {
-        const cell = state.city.grid[y][x];
-        const px = offsetX + x * cellSize;
-        const py = offsetY + y * cellSize;
-        
-        if (cell === 'road') {
-          ctx.fillStyle = COLORS.road;
-          roundRect(ctx, px + 0.5, py + 0.5, cellSize - 1, cellSize - 1, cellSize * 0.1);
-          ctx.fill();
-        } else if (cell === 'building') {
-          const variation = ((x * 7 + y * 13) % 3) / 10;
-          ctx.fillStyle = variation > 0.6 ? COLORS.buildingAccent : COLORS.building;
-          const margin = cellSize * 0.12;
-          roundRect(
-            ctx,
-            px + margin,
-            py + margin,
-            cellSize - margin * 2,
-            cellSize - margin * 2,
-            cellSize * 0.15
-          );
+    const travelTimes = travelTimeGrid(state);
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        if (city.grid[y][x] !== 'road') continue;
+        // Ignore the delay a single taxi adds to its own cell so only real jams show up.
+        const jam = travelTimes[y][x] - 1 - state.traffic.congestionFactor;
+        if (jam > 0) {
+          ctx.fillStyle = `rgba(${COLORS.congestion}, ${Math.min(jam * 0.3, 0.5)})`;
+          roundRect(ctx, offsetX + x * cellSize + 0.5, offsetY + y * cellSize + 0.5, cellSize - 1, cellSize - 1, cellSize * 0.1);
           ctx.fill();
         }
       }
     }
     
+    if (heatmap && heatmap.max > 0) {
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const value = heatmap.values[y * city.width + x];
+          if (Number.isNaN(value)) continue;
+          ctx.fillStyle = heatColor(value / heatmap.max);
+          ctx.fillRect(offsetX + x * cellSize, offsetY + y * cellSize, cellSize, cellSize);
+        }
+      }
+    }
+    
+    if (components) {
+      // Roads cut off from the main network strand any taxi or passenger on them.
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const label = components.labels[y * city.width + x];
+          if (label < 0 || label === components.main) continue;
+          ctx.fillStyle = COLORS.disconnected;
+          ctx.fillRect(offsetX + x * cellSize, offsetY + y * cellSize, cellSize, cellSize);
+        }
+      }
+      
+      ctx.fillStyle = COLORS.pickupSpot;
+      for (const spot of city.pickupSpots) {
+        if (!inView(spot)) continue;
+        ctx.beginPath();
+        ctx.arc(offsetX + (spot.x + 0.5) * cellSize, offsetY + (spot.y + 0.5) * cellSize, cellSize * 0.15, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+    
+    for (const zone of zones ?? []) {
+      const px = offsetX + zone.x * cellSize;
+      const py = offsetY + zone.y * cellSize;
+      ctx.fillStyle = `rgba(${ZONE_COLORS[zone.kind]}, 0.1)`;
+      ctx.fillRect(px, py, zone.width * cellSize, zone.height * cellSize);
+      ctx.strokeStyle = `rgba(${ZONE_COLORS[zone.kind]}, 0.5)`;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(px + 0.5, py + 0.5, zone.width * cellSize - 1, zone.height * cellSize - 1);
+      ctx.fillStyle = `rgba(${ZONE_COLORS[zone.kind]}, 0.8)`;
+      ctx.font = `600 ${Math.max(9, cellSize * 0.6)}px "Inter", system-ui, sans-serif`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillText(zone.kind, px + 4, py + 4);
+    }
+    
     if (pendingPickup) {
       const px = offsetX + pendingPickup.x * cellSize;
       const py = offsetY + pendingPickup.y * cellSize;
       
-      const pulseScale = 1 + Math.sin(animationTime * 3) * 0.1;
+      const pulseScale = 1 + Math.sin(pulseTime * 6) * 0.1;
       const glowRadius = cellSize * 0.6 * pulseScale;
       
       const gradient = ctx.createRadialGradient(
@@ -156,6 +429,7 @@ function GridCanvas({ state, width, height, onCellClick, pendingPickup }: CityCa
     ctx.setLineDash([]);
     
     for (const passenger of state.waitingPassengers) {
+      if (!inView(passenger.destination)) continue;
       const dx = offsetX + passenger.destination.x * cellSize + cellSize / 2;
       const dy = offsetY + passenger.destination.y * cellSize + cellSize / 2;
       
@@ -167,19 +441,19 @@ function GridCanvas({ state, width, height, onCellClick, pendingPickup }: CityCa
     }
     
     for (const passenger of state.waitingPassengers) {
+      if (!inView(passenger.pickup)) continue;
       const px = offsetX + passenger.pickup.x * cellSize + cellSize / 2;
       const py = offsetY + passenger.pickup.y * cellSize + cellSize / 2;
+      const radius = cellSize * 0.28;
       
-      const pulse = 1 + Math.sin(animationTime * 2) * 0.15;
-      const radius = cellSize * 0.28 * pulse;
-      
-      ctx.fillStyle = COLORS.passenger;
+      ctx.fillStyle = passenger.unreachable ? COLORS.passengerCutOff : COLORS.passenger;
       ctx.beginPath();
       ctx.arc(px, py, radius, 0, Math.PI * 2);
       ctx.fill();
     }
     
     for (const passenger of state.activePassengers) {
+      if (!inView(passenger.destination)) continue;
       const dx = offsetX + passenger.destination.x * cellSize + cellSize / 2;
       const dy = offsetY + passenger.destination.y * cellSize + cellSize / 2;
       
@@ -189,15 +463,37 @@ function GridCanvas({ state, width, height, onCellClick, pendingPickup }: CityCa
       ctx.fill();
     }
     
+    ctx.strokeStyle = COLORS.route;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([2, 4]);
+    for (const taxi of state.taxis) {
+      if (taxi.stops.length < 3) continue;
+      
+      ctx.beginPath();
+      ctx.moveTo(offsetX + taxi.position.x * cellSize + cellSize / 2, offsetY + taxi.position.y * cellSize + cellSize / 2);
+      for (const stop of taxi.stops) {
+        ctx.lineTo(offsetX + stop.position.x * cellSize + cellSize / 2, offsetY + stop.position.y * cellSize + cellSize / 2);
+      }
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+    
     for (let i = 0; i < state.taxis.length; i++) {
       const taxi = state.taxis[i];
+      if (!inView(taxi.position)) continue;
       const px = offsetX + taxi.position.x * cellSize + cellSize / 2;
       const py = offsetY + taxi.position.y * cellSize + cellSize / 2;
       
       if (taxi.state === 'idle') {
         ctx.fillStyle = COLORS.taxi;
+      } else if (taxi.state === 'repositioning') {
+        ctx.fillStyle = COLORS.taxiRepositioning;
       } else if (taxi.state === 'picking_up') {
         ctx.fillStyle = COLORS.taxiPickingUp;
+      } else if (taxi.state === 'to_charger' || taxi.state === 'charging') {
+        ctx.fillStyle = COLORS.taxiCharging;
+      } else if (taxi.state === 'to_depot' || taxi.state === 'offline') {
+        ctx.fillStyle = COLORS.taxiOffShift;
       } else {
         ctx.fillStyle = COLORS.taxiDelivering;
       }
@@ -205,62 +501,210 @@ function GridCanvas({ state, width, height, onCellClick, pendingPickup }: CityCa
       const size = cellSize * 0.38;
       roundRect(ctx, px - size / 2, py - size / 2, size, size, size * 0.25);
       ctx.fill();
+      
+      if (taxi.capacity > 1 && taxi.onboard > 0 && cellSize >= 10) {
+        ctx.fillStyle = COLORS.onboardText;
+        ctx.font = `700 ${Math.floor(size * 0.8)}px "Inter", system-ui, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(taxi.onboard), px, py + 0.5);
+      }
+      
+      if (taxi.batteryCapacity > 0) {
+        const level = taxi.battery / taxi.batteryCapacity;
+        const barWidth = cellSize * 0.6;
+        const barHeight = Math.max(2, cellSize * 0.1);
+        const barX = px - barWidth / 2;
+        const barY = py + size / 2 + 1;
+        ctx.fillStyle = COLORS.batteryTrack;
+        ctx.fillRect(barX, barY, barWidth, barHeight);
+        ctx.fillStyle = level < state.energy.lowBatteryThreshold ? COLORS.batteryLow : COLORS.batteryOk;
+        ctx.fillRect(barX, barY, barWidth * level, barHeight);
+      }
+    }
+    
+    if (viewport.zoom > 1) {
+      const map = minimapRect(width, height, city);
+      const scale = map.w / city.width;
+      ctx.fillStyle = COLORS.background;
+      ctx.fillRect(map.x - 2, map.y - 2, map.w + 4, map.h + 4);
+      ctx.drawImage(layer, map.x, map.y, map.w, map.h);
+      
+      for (const taxi of state.taxis) {
+        ctx.fillStyle = COLORS.taxi;
+        ctx.fillRect(map.x + taxi.position.x * scale, map.y + taxi.position.y * scale, Math.max(scale, 2), Math.max(scale, 2));
+      }
+      
+      ctx.strokeStyle = COLORS.highlight;
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(map.x + x0 * scale, map.y + y0 * scale, (x1 - x0) * scale, (y1 - y0) * scale);
+      ctx.strokeStyle = COLORS.minimapBorder;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(map.x - 2, map.y - 2, map.w + 4, map.h + 4);
     }
     
-  }, [state, width, height, pendingPickup, animationTime]);
+  }, [state, city, width, height, viewport, pendingPickup, zones, heatmap, components, pulseTime]);
   
-  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!onCellClick) return;
+  
+  const pointerAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+  
+  const cellAt = (e: React.MouseEvent<HTMLCanvasElement>): Position | null => {
+    const { x, y } = pointerAt(e);
+    const { cellSize, offsetX, offsetY } = gridLayout(width, height, city, viewport);
     
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    const gridX = Math.floor((x - offsetX) / cellSize);
+    const gridY = Math.floor((y - offsetY) / cellSize);
     
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    if (gridX >= 0 && gridX < city.width && gridY >= 0 && gridY < city.height) {
+      return { x: gridX, y: gridY };
+    }
+    return null;
+  };
+  
+  // A click on the minimap centres the view there.
+  const handleMinimapClick = (e: React.MouseEvent<HTMLCanvasElement>): boolean => {
+    if (viewport.zoom <= 1) return false;
     
-    const padding = 8;
-    const availableWidth = width - padding * 2;
-    const availableHeight = height - padding * 2;
+    const { x, y } = pointerAt(e);
+    const map = minimapRect(width, height, city);
+    if (x < map.x || x > map.x + map.w || y < map.y || y > map.y + map.h) return false;
     
-    const cellWidth = availableWidth / state.city.width;
-    const cellHeight = availableHeight / state.city.height;
-    const cellSize = Math.min(cellWidth, cellHeight);
+    const { cellSize } = gridLayout(width, height, city, viewport);
+    const gridX = ((x - map.x) / map.w) * city.width;
+    const gridY = ((y - map.y) / map.h) * city.height;
+    setViewport({
+      zoom: viewport.zoom,
+      panX: clampPan((city.width / 2 - gridX) * cellSize, cellSize * city.width, width),
+      panY: clampPan((city.height / 2 - gridY) * cellSize, cellSize * city.height, height),
+    });
+    return true;
+  };
+  
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
+    if (handleMinimapClick(e) || editTool) return;
     
-    const gridWidth = cellSize * state.city.width;
-    const gridHeight = cellSize * state.city.height;
-    const offsetX = (width - gridWidth) / 2;
-    const offsetY = (height - gridHeight) / 2;
+    const cell = cellAt(e);
+    if (!cell) return;
     
-    const gridX = Math.floor((x - offsetX) / cellSize);
-    const gridY = Math.floor((y - offsetY) / cellSize);
+    const type = city.grid[cell.y][cell.x];
+    if (onRoadToggle) {
+      if (type === 'road' || type === 'closed') onRoadToggle(cell);
+    } else if (onCellClick && type === 'road') {
+      onCellClick(cell);
+    }
+  };
+  
+  // Dragging paints every cell under the pointer once, so a stroke draws a line.
+  const handlePaint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editTool || !onCellPaint || (e.buttons & 1) === 0) return;
     
-    if (gridX >= 0 && gridX < state.city.width && gridY >= 0 && gridY < state.city.height) {
-      if (state.city.grid[gridY][gridX] === 'road') {
-        onCellClick({ x: gridX, y: gridY });
-      }
+    const cell = cellAt(e);
+    const key = cell && `${cell.x},${cell.y}`;
+    if (!cell || key === lastPainted.current) return;
+    lastPainted.current = key;
+    onCellPaint(cell);
+  };
+  
+  // The left button pans unless it is painting; the middle and right buttons always pan.
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (editTool && e.button === 0) {
+      handlePaint(e);
+      return;
+    }
+    dragRef.current = { x: e.clientX, y: e.clientY, viewport, moved: false };
+  };
+  
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      handlePaint(e);
+      return;
     }
+    
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    drag.moved ||= Math.abs(dx) + Math.abs(dy) > 3;
+    if (!drag.moved) return;
+    
+    const { cellSize } = gridLayout(width, height, city, drag.viewport);
+    setViewport({
+      zoom: drag.viewport.zoom,
+      panX: clampPan(drag.viewport.panX + dx, cellSize * city.width, width),
+      panY: clampPan(drag.viewport.panY + dy, cellSize * city.height, height),
+    });
+  };
+  
+  const endPointer = () => {
+    dragRef.current = null;
+    lastPainted.current = null;
+  };
+  
+  // Only a left-button release over the canvas is followed by a click, so only that one needs swallowing after a drag.
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    suppressClick.current = e.button === 0 && (dragRef.current?.moved ?? false);
+    endPointer();
+  };
+  
+  const handleMouseLeave = () => {
+    suppressClick.current = false;
+    endPointer();
   };
   
   return (
-    <canvas
-      ref={canvasRef}
-      style={{ 
-        width, 
-        height, 
-        cursor: onCellClick ? 'pointer' : 'default',
-        borderRadius: '8px',
-      }}
-      onClick={handleClick}
-    />
+    <div style={{ position: 'relative', width, height }}>
+      <canvas
+        ref={canvasRef}
+        style={{ 
+          width, 
+          height, 
+          cursor: editTool || onRoadToggle ? 'crosshair' : onCellClick ? 'pointer' : viewport.zoom > 1 ? 'grab' : 'default',
+          borderRadius: '8px',
+        }}
+        onClick={handleClick}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
+        onContextMenu={e => e.preventDefault()}
+      />
+      {viewport.zoom > 1 && (
+        <button
+          onClick={() => setViewport({ zoom: 1, panX: 0, panY: 0 })}
+          title="Show the whole map"
+          style={{
+            position: 'absolute',
+            top: PADDING,
+            right: PADDING,
+            padding: '4px 8px',
+            background: 'rgba(30, 41, 59, 0.9)',
+            color: '#f1f5f9',
+            border: '1px solid #334155',
+            borderRadius: '6px',
+            fontSize: '12px',
+            fontWeight: '600',
+            cursor: 'pointer',
+          }}
+        >
+          {viewport.zoom.toFixed(1)}× ⤢ Fit
+        </button>
+      )}
+    </div>
   );
 }
 
-export function CityCanvas({ state, metrics, title, width, height, onCellClick, pendingPickup }: CityCanvasProps) {
+export function CityCanvas({ state, metrics, title, controls, width, height, onCellClick, pendingPickup, zones, showLedger, report, heatmap, editTool, onCellPaint, onRoadToggle }: CityCanvasProps) {
   const titleHeight = 32;
-  const metricsHeight = 100;
+  const metricsHeight = 150;
+  const ledgerHeight = showLedger ? 160 : 0;
   const gap = 8;
-  const canvasHeight = height - titleHeight - metricsHeight - gap * 2;
+  const canvasHeight = height - titleHeight - metricsHeight - ledgerHeight - gap * (showLedger ? 3 : 2);
   
   return (
     <div style={{
@@ -280,8 +724,10 @@ export function CityCanvas({ state, metrics, title, width, height, onCellClick,
         display: 'flex',
         alignItems: 'center',
         justifyContent: 'center',
+        gap: '12px',
       }}>
         {title}
+        {controls}
       </div>
       
       <GridCanvas 
@@ -292,8 +738,15 @@ export function CityCanvas({ state, metrics, title, width, height, onCellClick,
         height={canvasHeight}
         onCellClick={onCellClick}
         pendingPickup={pendingPickup}
+        zones={zones}
+        heatmap={heatmap}
+        editTool={editTool}
+        onCellPaint={onCellPaint}
+        onRoadToggle={onRoadToggle}
       />
       
+      {showLedger && <TaxiLedger taxis={state.taxis} fares={state.fares} height={ledgerHeight} />}
+      
       <div style={{
         background: 'rgba(30, 41, 59, 0.5)',
         borderRadius: '8px',
@@ -305,7 +758,7 @@ export function CityCanvas({ state, metrics, title, width, height, onCellClick,
       }}>
         <div style={{
           display: 'grid',
-          gridTemplateColumns: 'repeat(6, 1fr)',
+          gridTemplateColumns: 'repeat(11, 1fr)',
           gap: '8px',
           flex: 1,
         }}>
@@ -315,6 +768,25 @@ export function CityCanvas({ state, metrics, title, width, height, onCellClick,
           <MetricCard label="Avg Wait" value={metrics.avgWaitTime.toFixed(1)} />
           <MetricCard label="Avg Trip" value={metrics.avgTripTime.toFixed(1)} />
           <MetricCard label="Util" value={`${(metrics.avgTaxiUtilization * 100).toFixed(0)}%`} />
+          <MetricCard label="Occup" value={metrics.avgOccupancy.toFixed(2)} />
+          <MetricCard label="Detour" value={`${metrics.avgDetourRatio.toFixed(2)}x`} />
+          <MetricCard label="Reassign" value={metrics.totalReassignments} />
+          <MetricCard label="Abandon" value={`${(metrics.abandonmentRate * 100).toFixed(0)}%`} />
+          <MetricCard label="Lost" value={metrics.lostDemand} />
+          <MetricCard label="Charging" value={`${(metrics.chargingDowntime * 100).toFixed(0)}%`} />
+          <MetricCard label="Fleet" value={`${metrics.activeTaxis}/${state.taxis.length}`} />
+          <MetricCard label="Revenue" value={`$${metrics.revenue.toFixed(0)}`} />
+          <MetricCard label="Deadhead" value={metrics.deadheadDistance} />
+          <MetricCard label="Profit" value={`$${metrics.profit.toFixed(0)}`} />
+          <MetricCard label="Cut Off" value={metrics.unreachablePassengers} />
+          {report && (
+            <>
+              <MetricCard label="P90 Wait" value={report.wait.p90} />
+              <MetricCard label="P99 Wait" value={report.wait.p99} />
+              <MetricCard label="Max Wait" value={report.maxWait} />
+              <MetricCard label="DH Ratio" value={report.deadheadRatio.toFixed(2)} />
+            </>
+          )}
         </div>
         
         <div style={{
@@ -325,8 +797,15 @@ export function CityCanvas({ state, metrics, title, width, height, onCellClick,
           borderTop: '1px solid rgba(148, 163, 184, 0.2)',
         }}>
           <LegendItem color="#fbbf24" label="Idle" />
+          <LegendItem color="#a78bfa" label="Repositioning" />
           <LegendItem color="#f87171" label="Picking Up" />
           <LegendItem color="#34d399" label="Delivering" />
+          <LegendItem color="#60a5fa" label="Charging" />
+          <LegendItem color="#64748b" label="Off Shift" />
+          {zones && (Object.keys(ZONE_COLORS) as ZoneKind[]).map(kind => (
+            <LegendItem key={kind} color={`rgb(${ZONE_COLORS[kind]})`} label={kind[0].toUpperCase() + kind.slice(1)} />
+          ))}
+          {heatmap && <HeatmapLegend heatmap={heatmap} />}
         </div>
       </div>
     </div>
@@ -385,3 +864,20 @@ function LegendItem({ color, label }: { color: string; label: string }) {
     </div>
   );
 }
+
+function HeatmapLegend({ heatmap }: { heatmap: Heatmap }) {
+  const max = heatmap.kind === 'wait' ? heatmap.max.toFixed(1) : heatmap.max.toFixed(0);
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#94a3b8', fontWeight: '500', fontSize: '11px' }}>
+      <span>{HEATMAP_LABELS[heatmap.kind]}</span>
+      <span>0</span>
+      <div style={{
+        width: '60px',
+        height: '8px',
+        borderRadius: '2px',
+        background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})`,
+      }} />
+      <span>{max}</span>
+    </div>
+  );
+}
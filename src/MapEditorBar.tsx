@@ -0,0 +1,84 @@
+import type { EditTool } from './mapEditor';
+
+interface MapEditorBarProps {
+	tool: EditTool;
+	onToolChange: (tool: EditTool) => void;
+	/** Road cells that cannot be reached from the main network. */
+	disconnectedCells: number;
+	onSave: () => void;
+	onSaveText: () => void;
+	onLoad: () => void;
+	/** Only offered once the map differs from the generated one. */
+	onRevert?: () => void;
+	onDone: () => void;
+}
+
+const TOOLS: Array<{ tool: EditTool; label: string; title: string }> = [
+	{ tool: 'road', label: '▦ Road', title: 'Paint road cells' },
+	{ tool: 'building', label: '■ Building', title: 'Paint building cells' },
+	{ tool: 'empty', label: '□ Empty', title: 'Clear cells' },
+	{ tool: 'pickup', label: '● Pickup', title: 'Toggle a pickup spot on a road cell' },
+];
+
+export function MapEditorBar({ tool, onToolChange, disconnectedCells, onSave, onSaveText, onLoad, onRevert, onDone }: MapEditorBarProps) {
+	return (
+		<div style={{
+			display: 'flex',
+			alignItems: 'center',
+			gap: 8,
+			padding: '8px 24px',
+			borderBottom: '1px solid #1e293b',
+			color: '#94a3b8',
+			fontSize: '13px',
+			fontWeight: '500',
+		}}>
+			Paint:
+			{TOOLS.map(entry => (
+				<button
+					key={entry.tool}
+					onClick={() => onToolChange(entry.tool)}
+					title={entry.title}
+					style={{ ...controlStyle, background: entry.tool === tool ? '#0e7490' : controlStyle.background }}
+				>
+					{entry.label}
+				</button>
+			))}
+			<div style={{ color: disconnectedCells > 0 ? '#f87171' : '#64748b', marginLeft: 8 }}>
+				{disconnectedCells > 0
+					? `${disconnectedCells} road cells cut off from the main network`
+					: 'All roads connected'}
+			</div>
+			<div style={{ marginLeft: 'auto', display: 'flex', gap: 8 }}>
+				<button onClick={onSave} title="Download this map as JSON" style={controlStyle}>
+					💾 Save map
+				</button>
+				<button onClick={onSaveText} title="Download this map as plain text; pickup spots are recomputed on load" style={controlStyle}>
+					⇩ Text map
+				</button>
+				<button onClick={onLoad} title="Open a saved map" style={controlStyle}>
+					📂 Load map
+				</button>
+				{onRevert && (
+					<button onClick={onRevert} title="Go back to the map generated from the seed" style={controlStyle}>
+						↺ Generated
+					</button>
+				)}
+				<button onClick={onDone} style={{ ...controlStyle, background: '#0e7490' }}>
+					Done
+				</button>
+			</div>
+		</div>
+	);
+}
+
+const controlStyle = {
+	padding: '6px 12px',
+	background: '#1e293b',
+	color: '#f1f5f9',
+	border: '1px solid #334155',
+	borderRadius: '6px',
+	fontSize: '13px',
+	fontFamily: '"Inter", system-ui, sans-serif',
+	fontWeight: '600',
+	cursor: 'pointer',
+};
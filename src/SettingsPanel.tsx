@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import type { SimulationConfig } from './types';
+import { DEFAULT_CONFIG, DEFAULT_SEED } from './config';
+import { formatSettings, parseSettings, SETTING_FIELDS, type SettingKey, type SettingValues } from './settings';
+
+interface SettingsPanelProps {
+	config: SimulationConfig;
+	seed: number;
+	onApply: (config: SimulationConfig, seed: number) => void;
+	onClose: () => void;
+}
+
+const GROUPS = [...new Set(Object.values(SETTING_FIELDS).map(field => field.group))];
+
+export function SettingsPanel({ config, seed, onApply, onClose }: SettingsPanelProps) {
+	const [values, setValues] = useState<SettingValues>(() => formatSettings(config, seed));
+	const parsed = parseSettings(values);
+	const hasErrors = Object.keys(parsed.errors).length > 0;
+
+	const setValue = (key: SettingKey, value: string) => {
+		setValues(current => ({ ...current, [key]: value }));
+	};
+
+	const renderInput = (key: SettingKey) => {
+		const field = SETTING_FIELDS[key];
+		const invalid = parsed.errors[key] !== undefined;
+		const style = { ...inputStyle, border: `1px solid ${invalid ? '#f87171' : '#334155'}` };
+
+		switch (field.kind) {
+			case 'integer':
+			case 'number':
+				return (
+					<input
+						type="number"
+						value={values[key]}
+						min={field.min}
+						max={field.max}
+						step={field.step ?? (field.kind === 'integer' ? 1 : 'any')}
+						onChange={e => setValue(key, e.target.value)}
+						style={{ ...style, width: 90 }}
+					/>
+				);
+			case 'boolean':
+				return (
+					<input
+						type="checkbox"
+						checked={values[key] === 'true'}
+						onChange={e => setValue(key, String(e.target.checked))}
+					/>
+				);
+			case 'choice':
+				return (
+					<select value={values[key]} onChange={e => setValue(key, e.target.value)} style={style}>
+						{field.choices().map(choice => (
+							<option key={choice.value} value={choice.value}>{choice.label}</option>
+						))}
+					</select>
+				);
+			case 'json':
+				return (
+					<textarea
+						value={values[key]}
+						onChange={e => setValue(key, e.target.value)}
+						rows={2}
+						spellCheck={false}
+						style={{ ...style, width: 320, fontFamily: 'monospace', fontSize: '12px', resize: 'vertical' }}
+					/>
+				);
+		}
+	};
+
+	return (
+		<div style={{
+			padding: '12px 24px',
+			borderBottom: '1px solid #1e293b',
+			color: '#94a3b8',
+			fontSize: '13px',
+			fontWeight: '500',
+			display: 'flex',
+			flexDirection: 'column',
+			gap: 10,
+		}}>
+			{GROUPS.map(group => (
+				<div key={group} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start', gap: 12 }}>
+					<div style={{ width: 70, paddingTop: 6, color: '#f1f5f9', fontWeight: '600' }}>{group}</div>
+					{(Object.keys(SETTING_FIELDS) as SettingKey[])
+						.filter(key => SETTING_FIELDS[key].group === group)
+						.map(key => (
+							<label key={key} style={{ display: 'flex', flexDirection: 'column', gap: 4 }} title={key}>
+								{SETTING_FIELDS[key].label}
+								{renderInput(key)}
+								{parsed.errors[key] && (
+									<span style={{ color: '#f87171', fontSize: '12px', maxWidth: 320 }}>{parsed.errors[key]}</span>
+								)}
+							</label>
+						))}
+				</div>
+			))}
+			<div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+				<button
+					onClick={() => setValues(formatSettings(DEFAULT_CONFIG, DEFAULT_SEED))}
+					title="Fill in the default settings; nothing changes until applied"
+					style={controlStyle}
+				>
+					↺ Defaults
+				</button>
+				<button onClick={onClose} style={controlStyle}>
+					Cancel
+				</button>
+				<button
+					onClick={() => onApply(parsed.config, parsed.seed)}
+					disabled={hasErrors}
+					title="Restart every lane with these settings"
+					style={{ ...controlStyle, background: '#0e7490', opacity: hasErrors ? 0.5 : 1, cursor: hasErrors ? 'not-allowed' : 'pointer' }}
+				>
+					Apply
+				</button>
+			</div>
+		</div>
+	);
+}
+
+const inputStyle = {
+	padding: '6px 8px',
+	background: '#1e293b',
+	color: '#f1f5f9',
+	border: '1px solid #334155',
+	borderRadius: '6px',
+	fontSize: '13px',
+	fontFamily: '"Inter", system-ui, sans-serif',
+};
+
+const controlStyle = {
+	padding: '6px 12px',
+	background: '#1e293b',
+	color: '#f1f5f9',
+	border: '1px solid #334155',
+	borderRadius: '6px',
+	fontSize: '13px',
+	fontFamily: '"Inter", system-ui, sans-serif',
+	fontWeight: '600',
+	cursor: 'pointer',
+};
@@ -0,0 +1,124 @@
+import type { DispatchStrategy } from './strategies';
+import type { RepositioningPolicy } from './rebalancing';
+import type { LaneSpec } from './lanes';
+
+interface StrategyPickerProps {
+	strategies: DispatchStrategy[];
+	lanes: LaneSpec[];
+	onChange: (lanes: LaneSpec[]) => void;
+}
+
+export function StrategyPicker({ strategies, lanes, onChange }: StrategyPickerProps) {
+	const toggle = (id: string) => {
+		const remaining = lanes.filter(l => l.strategyId !== id);
+		if (remaining.length < lanes.length) {
+			if (remaining.length > 0) {
+				onChange(remaining);
+			}
+		} else {
+			// Keep registry order so lanes don't reshuffle when toggled.
+			const order = strategies.map(s => s.id);
+			onChange(
+				[...lanes, { strategyId: id, repositioningId: 'none' }]
+					.sort((a, b) => order.indexOf(a.strategyId) - order.indexOf(b.strategyId))
+			);
+		}
+	};
+
+	return (
+		<div style={{
+			display: 'flex',
+			alignItems: 'center',
+			gap: 6,
+			marginLeft: 12,
+			color: '#94a3b8',
+			fontSize: '14px',
+			fontWeight: '500',
+		}}>
+			Lanes:
+			{strategies.map(strategy => {
+				const active = lanes.some(l => l.strategyId === strategy.id);
+				return (
+					<button
+						key={strategy.id}
+						onClick={() => toggle(strategy.id)}
+						title={strategy.label}
+						style={chipStyle(active)}
+					>
+						{strategy.id}
+					</button>
+				);
+			})}
+		</div>
+	);
+}
+
+interface LaneControlsProps {
+	policies: RepositioningPolicy[];
+	lanes: LaneSpec[];
+	index: number;
+	onChange: (lanes: LaneSpec[]) => void;
+}
+
+export function LaneControls({ policies, lanes, index, onChange }: LaneControlsProps) {
+	const lane = lanes[index];
+
+	const setPolicy = (repositioningId: string) => {
+		onChange(lanes.map((l, i) => i === index ? { ...l, repositioningId } : l));
+	};
+
+	const duplicate = () => {
+		onChange([...lanes.slice(0, index + 1), { ...lane }, ...lanes.slice(index + 1)]);
+	};
+
+	const remove = () => {
+		onChange(lanes.filter((_, i) => i !== index));
+	};
+
+	return (
+		<div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+			<select
+				value={lane.repositioningId}
+				onChange={e => setPolicy(e.target.value)}
+				title="Idle taxi rebalancing"
+				style={{
+					padding: '4px 8px',
+					background: '#1e293b',
+					color: '#f1f5f9',
+					border: '1px solid #334155',
+					borderRadius: '6px',
+					fontSize: '12px',
+					fontFamily: '"Inter", system-ui, sans-serif',
+					cursor: 'pointer',
+				}}
+			>
+				{policies.map(policy => (
+					<option key={policy.id} value={policy.id}>{policy.label}</option>
+				))}
+			</select>
+			<button onClick={duplicate} title="Duplicate lane" style={chipStyle(false)}>⧉</button>
+			<button
+				onClick={remove}
+				disabled={lanes.length <= 1}
+				title="Remove lane"
+				style={{ ...chipStyle(false), opacity: lanes.length <= 1 ? 0.5 : 1 }}
+			>
+				✕
+			</button>
+		</div>
+	);
+}
+
+function chipStyle(active: boolean) {
+	return {
+		padding: '6px 12px',
+		background: active ? 'rgba(6, 182, 212, 0.15)' : '#1e293b',
+		color: active ? '#22d3ee' : '#94a3b8',
+		border: `1px solid ${active ? 'rgba(6, 182, 212, 0.5)' : '#334155'}`,
+		borderRadius: '6px',
+		fontSize: '13px',
+		fontFamily: '"Inter", system-ui, sans-serif',
+		fontWeight: '600',
+		cursor: 'pointer',
+	};
+}
@@ -0,0 +1,67 @@
+import type { FareSettings, Taxi } from './types';
+
+interface TaxiLedgerProps {
+	taxis: Taxi[];
+	fares: FareSettings;
+	height: number;
+}
+
+/** Per-taxi earnings, most profitable first. */
+export function TaxiLedger({ taxis, fares, height }: TaxiLedgerProps) {
+	const rows = taxis
+		.map(taxi => {
+			const cost = taxi.deadheadDistance * fares.deadheadCostPerCell;
+			return { taxi, cost, profit: taxi.revenue - cost };
+		})
+		.sort((a, b) => b.profit - a.profit);
+
+	return (
+		<div style={{
+			height,
+			overflowY: 'auto',
+			background: 'rgba(30, 41, 59, 0.5)',
+			borderRadius: '8px',
+			padding: '4px 12px',
+		}}>
+			<table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', fontVariantNumeric: 'tabular-nums' }}>
+				<thead>
+					<tr>
+						{['Taxi', 'Trips', 'Revenue', 'Deadhead', 'Cost', 'Profit'].map(label => (
+							<th key={label} style={headerStyle}>{label}</th>
+						))}
+					</tr>
+				</thead>
+				<tbody>
+					{rows.map(({ taxi, cost, profit }) => (
+						<tr key={taxi.id} style={{ color: taxi.onShift ? '#f1f5f9' : '#64748b' }}>
+							<td style={cellStyle}>{taxi.id}</td>
+							<td style={cellStyle}>{taxi.totalDeliveries}</td>
+							<td style={cellStyle}>${taxi.revenue.toFixed(0)}</td>
+							<td style={cellStyle}>{taxi.deadheadDistance}</td>
+							<td style={cellStyle}>${cost.toFixed(0)}</td>
+							<td style={{ ...cellStyle, color: profit < 0 ? '#f87171' : undefined }}>${profit.toFixed(0)}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
+
+const headerStyle = {
+	position: 'sticky' as const,
+	top: 0,
+	background: '#1e293b',
+	color: '#94a3b8',
+	fontSize: '10px',
+	fontWeight: '500',
+	textTransform: 'uppercase' as const,
+	letterSpacing: '0.5px',
+	textAlign: 'right' as const,
+	padding: '4px 6px',
+};
+
+const cellStyle = {
+	textAlign: 'right' as const,
+	padding: '2px 6px',
+};
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+
+interface TimelineBarProps {
+	firstTick: number;
+	lastTick: number;
+	tick: number;
+	onSeek: (tick: number) => void;
+}
+
+export function TimelineBar({ firstTick, lastTick, tick, onSeek }: TimelineBarProps) {
+	const [jumpTarget, setJumpTarget] = useState('');
+
+	const jump = () => {
+		const target = Number(jumpTarget);
+		if (jumpTarget.trim() !== '' && Number.isInteger(target) && target >= 0) {
+			onSeek(target);
+		}
+		setJumpTarget('');
+	};
+
+	return (
+		<div style={{
+			display: 'flex',
+			alignItems: 'center',
+			gap: 12,
+			padding: '8px 24px',
+			borderBottom: '1px solid #1e293b',
+			color: '#94a3b8',
+			fontSize: '13px',
+			fontWeight: '500',
+		}}>
+			<button
+				onClick={() => onSeek(tick - 1)}
+				disabled={tick <= firstTick}
+				title="Step back one tick"
+				style={{ ...controlStyle, opacity: tick <= firstTick ? 0.5 : 1 }}
+			>
+				⏮ Back
+			</button>
+			<input
+				type="range"
+				min={firstTick}
+				max={lastTick}
+				value={tick}
+				onChange={e => onSeek(Number(e.target.value))}
+				style={{ flex: 1, accentColor: '#06b6d4', cursor: 'pointer' }}
+			/>
+			<div style={{ minWidth: 110, textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>
+				Tick {tick} / {lastTick}
+			</div>
+			<input
+				type="number"
+				min={0}
+				placeholder="Tick"
+				value={jumpTarget}
+				onChange={e => setJumpTarget(e.target.value)}
+				onKeyDown={e => e.key === 'Enter' && jump()}
+				style={{ ...controlStyle, width: 80, cursor: 'text' }}
+			/>
+			<button onClick={jump} title="Jump to tick, simulating ahead if needed" style={controlStyle}>
+				Go
+			</button>
+		</div>
+	);
+}
+
+const controlStyle = {
+	padding: '6px 12px',
+	background: '#1e293b',
+	color: '#f1f5f9',
+	border: '1px solid #334155',
+	borderRadius: '6px',
+	fontSize: '13px',
+	fontFamily: '"Inter", system-ui, sans-serif',
+	fontWeight: '600',
+	cursor: 'pointer',
+};
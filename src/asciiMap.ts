@@ -0,0 +1,84 @@
+import type { CellType, City, Direction, Position, TurnRules } from './types';
+import { findPickupSpots, twoWayStreets } from './cityGenerator';
+
+/*
+ * Plain-text maps, one character per cell:
+ *
+ *   .          road
+ *   > < ^ v    one-way road heading east, west, north or south
+ *   C          road with a charging station
+ *   X          road closed by an incident
+ *   #          building
+ *   _ or space empty
+ *
+ * Lines starting with `;` are comments, and short rows are padded with empty
+ * cells. Pickup spots are not stored: every road cell next to a building is one.
+ */
+
+const ONE_WAY_CHARS: Record<string, Direction> = { '>': 'east', '<': 'west', '^': 'north', v: 'south' };
+const DIRECTION_CHARS: Record<Direction, string> = { east: '>', west: '<', north: '^', south: 'v' };
+
+export function parseAsciiMap(text: string, turnRules: TurnRules = { noUTurn: false, noLeftTurn: false }): City {
+	const rows = text
+		.split('\n')
+		.map(line => line.replace(/\r$/, ''))
+		.filter(line => !line.startsWith(';'));
+	while (rows.length > 0 && rows[rows.length - 1].trim() === '') rows.pop();
+
+	const height = rows.length;
+	const width = Math.max(0, ...rows.map(row => row.length));
+	if (width === 0 || height === 0) {
+		throw new Error('Map is empty');
+	}
+
+	const grid: CellType[][] = [];
+	const oneWay = twoWayStreets(width, height);
+	const chargingStations: Position[] = [];
+
+	rows.forEach((row, y) => {
+		const cells: CellType[] = [];
+		for (let x = 0; x < width; x++) {
+			const char = row[x] ?? ' ';
+			if (char === '.' || char === 'C' || char in ONE_WAY_CHARS) {
+				cells.push('road');
+				oneWay[y][x] = ONE_WAY_CHARS[char] ?? null;
+				if (char === 'C') chargingStations.push({ x, y });
+			} else if (char === 'X') {
+				cells.push('closed');
+			} else if (char === '#') {
+				cells.push('building');
+			} else if (char === '_' || char === ' ') {
+				cells.push('empty');
+			} else {
+				throw new Error(`Map line ${y + 1}: unknown cell "${char}" at column ${x + 1}`);
+			}
+		}
+		grid.push(cells);
+	});
+	if (!grid.some(row => row.includes('road'))) {
+		throw new Error('Map has no roads');
+	}
+
+	return {
+		grid,
+		width,
+		height,
+		pickupSpots: findPickupSpots(grid, width, height),
+		oneWay,
+		turnRules,
+		chargingStations,
+		version: 0,
+	};
+}
+
+export function formatAsciiMap(city: City): string {
+	const stations = new Set(city.chargingStations.map(p => `${p.x},${p.y}`));
+	return city.grid.map((row, y) => row.map((cell, x) => {
+		if (cell === 'building') return '#';
+		if (cell === 'empty') return '_';
+		if (cell === 'closed') return 'X';
+		if (stations.has(`${x},${y}`)) return 'C';
+		const dir = city.oneWay[y][x];
+		return dir ? DIRECTION_CHARS[dir] : '.';
+	}).join('')).join('\n') + '\n';
+}
@@ -0,0 +1,112 @@
+import type { SimulationConfig, Metrics } from './types';
+import { createSimulation, cloneSimulationState, calculateMetrics } from './simulation';
+import { createSpawner, spawnForTick } from './spawner';
+import { advanceSimulation, laneSpecKey, parseLaneSpec, type LaneSpec } from './lanes';
+import { listStrategies } from './strategies';
+import { createCollector, recordTick, summarizeCollector, type UtilizationWindow } from './collector';
+
+export interface BatchOptions {
+	config: SimulationConfig;
+	seeds: number[];
+	ticks: number;
+	/** Lane keys such as `greedy` or `optimized+demand`; defaults to every strategy without rebalancing. */
+	strategies?: string[];
+}
+
+export interface BatchResult extends Metrics {
+	seed: number;
+	strategy: string;
+	ticks: number;
+	waitP50: number;
+	waitP90: number;
+	waitP99: number;
+	tripP50: number;
+	tripP90: number;
+	tripP99: number;
+	maxWait: number;
+	deadheadRatio: number;
+	/** JSON output only. */
+	utilization: UtilizationWindow[];
+}
+
+const CSV_COLUMNS: Array<keyof BatchResult> = [
+	'seed',
+	'strategy',
+	'ticks',
+	'avgWaitTime',
+	'avgTripTime',
+	'totalPassengersServed',
+	'totalPassengersWaiting',
+	'avgTaxiUtilization',
+	'avgOccupancy',
+	'avgDetourRatio',
+	'totalReassignments',
+	'abandonmentRate',
+	'lostDemand',
+	'chargingDowntime',
+	'activeTaxis',
+	'revenue',
+	'deadheadDistance',
+	'profit',
+	'unreachablePassengers',
+	'waitP50',
+	'waitP90',
+	'waitP99',
+	'tripP50',
+	'tripP90',
+	'tripP99',
+	'maxWait',
+	'deadheadRatio',
+];
+
+export function runSeed(
+	config: SimulationConfig,
+	seed: number,
+	ticks: number,
+	specs: LaneSpec[]
+): BatchResult[] {
+	const initial = createSimulation(config, seed);
+	const states = specs.map(() => cloneSimulationState(initial));
+	const collectors = states.map(createCollector);
+	const spawner = createSpawner(seed, initial.city);
+
+	for (let i = 0; i < ticks; i++) {
+		const newPassengers = spawnForTick(spawner, states[0].tick, config);
+		states.forEach((state, idx) => {
+			advanceSimulation(state, specs[idx], newPassengers, config);
+			collectors[idx] = recordTick(collectors[idx], state);
+		});
+	}
+
+	return states.map((state, idx) => {
+		const report = summarizeCollector(collectors[idx]);
+		return {
+			seed,
+			strategy: laneSpecKey(specs[idx]),
+			ticks,
+			...calculateMetrics(state),
+			waitP50: report.wait.p50,
+			waitP90: report.wait.p90,
+			waitP99: report.wait.p99,
+			tripP50: report.trip.p50,
+			tripP90: report.trip.p90,
+			tripP99: report.trip.p99,
+			maxWait: report.maxWait,
+			deadheadRatio: report.deadheadRatio,
+			utilization: report.utilization,
+		};
+	});
+}
+
+export function runBatch({ config, seeds, ticks, strategies }: BatchOptions): BatchResult[] {
+	const specs = (strategies ?? listStrategies().map(s => s.id)).map(parseLaneSpec);
+	return seeds.flatMap(seed => runSeed(config, seed, ticks, specs));
+}
+
+export function resultsToCsv(results: BatchResult[]): string {
+	const lines = [CSV_COLUMNS.join(',')];
+	for (const result of results) {
+		lines.push(CSV_COLUMNS.map(column => String(result[column])).join(','));
+	}
+	return lines.join('\n') + '\n';
+}
@@ -1,13 +1,13 @@
-import type { City, CellType, Position } from './types';
+import type { City, CellType, Direction, Position, TurnRules } from './types';
+import { seededRandom } from './random';
 
-function seededRandom(seed: number): () => number {
-  return () => {
-    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-    return seed / 0x7fffffff;
-  };
+export interface CityOptions {
+  oneWayFraction?: number;
+  turnRules?: TurnRules;
+  chargingStations?: number;
 }
 
-export function generateCity(width: number, height: number, seed: number = 42): City {
+export function generateCity(width: number, height: number, seed: number = 42, options: CityOptions = {}): City {
   const random = seededRandom(seed);
   const grid: CellType[][] = Array(height).fill(null).map(() => Array(width).fill('empty'));
   
@@ -58,11 +58,105 @@ export function generateCity(width: number, height: number, seed: number = 42):
   }
   
   const pickupSpots = findPickupSpots(grid, width, height);
+  const oneWay = assignOneWayStreets(
+    width,
+    height,
+    mainRoadSpacingX,
+    mainRoadSpacingY,
+    options.oneWayFraction ?? 0,
+    seededRandom(seed + 7)
+  );
+  const turnRules = options.turnRules ?? { noUTurn: false, noLeftTurn: false };
+  const chargingStations = placeChargingStations(
+    width,
+    height,
+    mainRoadSpacingX,
+    mainRoadSpacingY,
+    options.chargingStations ?? 0,
+    seededRandom(seed + 11)
+  );
   
-  return { grid, width, height, pickupSpots };
+  return { grid, width, height, pickupSpots, oneWay, turnRules, chargingStations, version: 0 };
 }
 
-function findPickupSpots(grid: CellType[][], width: number, height: number): Position[] {
+export function twoWayStreets(width: number, height: number): (Direction | null)[][] {
+  return Array(height).fill(null).map(() => Array(width).fill(null));
+}
+
+// Every other street, including the outermost ones, stays two-way as an
+// arterial and only the stretch between the first and last cross street is
+// directed, so each one-way block ends on an arterial and the network stays
+// strongly connected.
+function assignOneWayStreets(
+  width: number,
+  height: number,
+  spacingX: number,
+  spacingY: number,
+  fraction: number,
+  random: () => number
+): (Direction | null)[][] {
+  const oneWay = twoWayStreets(width, height);
+  if (fraction <= 0) return oneWay;
+  
+  const lastColumn = Math.floor((width - 1) / spacingX) * spacingX;
+  const lastRow = Math.floor((height - 1) / spacingY) * spacingY;
+  
+  for (let y = spacingY; y < lastRow; y += spacingY * 2) {
+    if (random() >= fraction) continue;
+    const dir: Direction = random() < 0.5 ? 'east' : 'west';
+    for (let x = 1; x < lastColumn; x++) {
+      if (x % spacingX !== 0) oneWay[y][x] = dir;
+    }
+  }
+  
+  for (let x = spacingX; x < lastColumn; x += spacingX * 2) {
+    if (random() >= fraction) continue;
+    const dir: Direction = random() < 0.5 ? 'south' : 'north';
+    for (let y = 1; y < lastRow; y++) {
+      if (y % spacingY !== 0) oneWay[y][x] = dir;
+    }
+  }
+  
+  return oneWay;
+}
+
+// Stations sit on intersections, which are always two-way road. After a random
+// first pick each station goes to the intersection farthest from the others so
+// they spread over the whole city.
+function placeChargingStations(
+  width: number,
+  height: number,
+  spacingX: number,
+  spacingY: number,
+  count: number,
+  random: () => number
+): Position[] {
+  const intersections: Position[] = [];
+  for (let y = 0; y < height; y += spacingY) {
+    for (let x = 0; x < width; x += spacingX) {
+      intersections.push({ x, y });
+    }
+  }
+  if (count <= 0 || intersections.length === 0) return [];
+  
+  const stations = [intersections[Math.floor(random() * intersections.length)]];
+  while (stations.length < Math.min(count, intersections.length)) {
+    let best = intersections[0];
+    let bestDistance = -1;
+    for (const candidate of intersections) {
+      const distance = Math.min(...stations.map(s => Math.abs(s.x - candidate.x) + Math.abs(s.y - candidate.y)));
+      if (distance > bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    stations.push(best);
+  }
+  
+  return stations;
+}
+
+export function findPickupSpots(grid: CellType[][], width: number, height: number): Position[] {
   const spots: Position[] = [];
   
   for (let y = 0; y < height; y++) {
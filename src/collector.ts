@@ -0,0 +1,325 @@
+import type { SimulationState } from './types';
+import { HISTORY_LIMIT } from './timeline';
+
+/** Fleet and queue state at the end of one tick. */
+export interface TickSample {
+	tick: number;
+	waiting: number;
+	/** Age of the longest-waiting open request. */
+	oldestWait: number;
+	served: number;
+	busyTaxis: number;
+	activeTaxis: number;
+	deadheadDistance: number;
+	loadedDistance: number;
+	revenue: number;
+	/**
+	 * Cell index (`y * width + x`) of every taxi on the road this tick. Only the
+	 * last `HISTORY_LIMIT` samples keep their cells; older ones live on in the
+	 * store's counts.
+	 */
+	taxiCells?: number[];
+	/** Cell index of every taxi standing idle this tick. */
+	idleCells?: number[];
+}
+
+export interface PassengerSample {
+	id: string;
+	wait: number;
+	trip: number;
+	deliveredTick: number;
+}
+
+/** Ticks each cell held a taxi on the road, and an idle one. */
+export interface TaxiCellCounts {
+	traffic: Float64Array;
+	idle: Float64Array;
+}
+
+/** Samples of one lane, only ever appended to. */
+export interface CollectorStore {
+	series: TickSample[];
+	passengers: PassengerSample[];
+	/** Taxi cells summed over the whole series. */
+	cells: TaxiCellCounts;
+}
+
+/**
+ * Per-tick series and per-passenger samples for one lane, as the first `ticks`
+ * and `delivered` entries of a store that later collectors extend in place.
+ * Timeline frames keep the collector that belongs to their tick and share one
+ * copy of the history.
+ */
+export interface MetricsCollector {
+	store: CollectorStore;
+	ticks: number;
+	delivered: number;
+}
+
+export interface Distribution {
+	p50: number;
+	p90: number;
+	p99: number;
+	max: number;
+}
+
+export interface UtilizationWindow {
+	start: number;
+	end: number;
+	utilization: number;
+}
+
+export interface MetricsReport {
+	wait: Distribution;
+	trip: Distribution;
+	/** Longest wait seen so far, counting requests that are still open. */
+	maxWait: number;
+	utilization: UtilizationWindow[];
+	/** Cells driven empty per cell driven with passengers. */
+	deadheadRatio: number;
+}
+
+export const UTILIZATION_WINDOW = 100;
+
+function samplePassengers(state: SimulationState, from: number): PassengerSample[] {
+	return state.completedPassengers.slice(from).map(p => ({
+		id: p.id,
+		wait: (p.pickedUpTick ?? p.spawnTick) - p.spawnTick,
+		trip: (p.deliveredTick ?? state.tick) - (p.pickedUpTick ?? p.spawnTick),
+		deliveredTick: p.deliveredTick ?? state.tick,
+	}));
+}
+
+function sampleTick(state: SimulationState): TickSample {
+	let deadheadDistance = 0;
+	let totalDistance = 0;
+	let revenue = 0;
+	const taxiCells: number[] = [];
+	const idleCells: number[] = [];
+	for (const taxi of state.taxis) {
+		deadheadDistance += taxi.deadheadDistance;
+		totalDistance += taxi.totalDistance;
+		revenue += taxi.revenue;
+
+		const cell = taxi.position.y * state.city.width + taxi.position.x;
+		if (taxi.state !== 'offline') taxiCells.push(cell);
+		if (taxi.state === 'idle') idleCells.push(cell);
+	}
+
+	return {
+		tick: state.tick,
+		waiting: state.waitingPassengers.length,
+		oldestWait: state.waitingPassengers.reduce((max, p) => Math.max(max, state.tick - p.spawnTick), 0),
+		served: state.completedPassengers.length,
+		busyTaxis: state.taxis.filter(t => t.stops.length > 0).length,
+		activeTaxis: state.taxis.filter(t => t.onShift || t.stops.length > 0).length,
+		deadheadDistance,
+		loadedDistance: totalDistance - deadheadDistance,
+		revenue,
+		taxiCells,
+		idleCells,
+	};
+}
+
+/** Starts collecting from `state`, counting passengers it has already delivered. */
+export function createCollector(state: SimulationState): MetricsCollector {
+	const passengers = samplePassengers(state, 0);
+	const sample = sampleTick(state);
+	const size = state.city.width * state.city.height;
+	const cells = { traffic: new Float64Array(size), idle: new Float64Array(size) };
+	countCells(cells, sample, 1);
+	return { store: { series: [sample], passengers, cells }, ticks: 1, delivered: passengers.length };
+}
+
+function countCells(cells: TaxiCellCounts, sample: TickSample, sign: number): void {
+	for (const cell of sample.taxiCells ?? []) cells.traffic[cell] += sign;
+	for (const cell of sample.idleCells ?? []) cells.idle[cell] += sign;
+}
+
+/**
+ * Taxi cells summed up to the collector's last tick. A collector behind the
+ * store takes back the ticks after it, which are recent enough to still have
+ * their cells since the timeline never reaches further back.
+ */
+export function taxiCellCounts(collector: MetricsCollector): TaxiCellCounts {
+	const { store, ticks } = collector;
+	if (ticks === store.series.length) return store.cells;
+
+	const cells = { traffic: store.cells.traffic.slice(), idle: store.cells.idle.slice() };
+	for (let i = ticks; i < store.series.length; i++) countCells(cells, store.series[i], -1);
+	return cells;
+}
+
+export function tickSamples(collector: MetricsCollector): readonly TickSample[] {
+	const { series } = collector.store;
+	return collector.ticks === series.length ? series : series.slice(0, collector.ticks);
+}
+
+export function passengerSamples(collector: MetricsCollector): readonly PassengerSample[] {
+	const { passengers } = collector.store;
+	return collector.delivered === passengers.length ? passengers : passengers.slice(0, collector.delivered);
+}
+
+/**
+ * Extends `collector` with samples taken after it. The store is only copied
+ * when the run forks, that is when a later collector has already extended it.
+ */
+export function appendSamples(
+	collector: MetricsCollector,
+	series: readonly TickSample[],
+	passengers: readonly PassengerSample[]
+): MetricsCollector {
+	const { store } = collector;
+	const target = collector.ticks === store.series.length && collector.delivered === store.passengers.length
+		? store
+		: {
+			series: store.series.slice(0, collector.ticks),
+			passengers: store.passengers.slice(0, collector.delivered),
+			cells: taxiCellCounts(collector),
+		};
+
+	for (const sample of series) {
+		target.series.push(sample);
+		countCells(target.cells, sample, 1);
+		const expired = target.series[target.series.length - 1 - HISTORY_LIMIT];
+		if (expired) {
+			delete expired.taxiCells;
+			delete expired.idleCells;
+		}
+	}
+	for (const sample of passengers) target.passengers.push(sample);
+	return { store: target, ticks: target.series.length, delivered: target.passengers.length };
+}
+
+export function recordTick(collector: MetricsCollector, state: SimulationState): MetricsCollector {
+	return appendSamples(collector, [sampleTick(state)], samplePassengers(state, collector.delivered));
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export function percentile(sorted: number[], p: number): number {
+	if (sorted.length === 0) return 0;
+	return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+function distribution(sorted: number[]): Distribution {
+	return {
+		p50: percentile(sorted, 0.5),
+		p90: percentile(sorted, 0.9),
+		p99: percentile(sorted, 0.99),
+		max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+	};
+}
+
+interface SortedSamples {
+	delivered: number;
+	waits: number[];
+	trips: number[];
+}
+
+// Sorted waits and trips per store, extended as the run goes on rather than re-sorted.
+const sortedSamples = new WeakMap<CollectorStore, SortedSamples>();
+
+function insertSorted(sorted: number[], value: number): void {
+	let lo = 0;
+	let hi = sorted.length;
+	while (lo < hi) {
+		const mid = (lo + hi) >> 1;
+		if (sorted[mid] <= value) lo = mid + 1;
+		else hi = mid;
+	}
+	sorted.splice(lo, 0, value);
+}
+
+function sortedPassengers(collector: MetricsCollector): SortedSamples {
+	const { store, delivered } = collector;
+	let sorted = sortedSamples.get(store);
+	if (!sorted || sorted.delivered > delivered) {
+		// Scrubbed back to an earlier frame: start over from its passengers.
+		const passengers = store.passengers.slice(0, delivered);
+		sorted = {
+			delivered,
+			waits: passengers.map(p => p.wait).sort((a, b) => a - b),
+			trips: passengers.map(p => p.trip).sort((a, b) => a - b),
+		};
+		sortedSamples.set(store, sorted);
+	}
+	for (; sorted.delivered < delivered; sorted.delivered++) {
+		insertSorted(sorted.waits, store.passengers[sorted.delivered].wait);
+		insertSorted(sorted.trips, store.passengers[sorted.delivered].trip);
+	}
+	return sorted;
+}
+
+interface WindowSum {
+	total: number;
+	ticks: number;
+}
+
+interface RunningTotals {
+	ticks: number;
+	oldestOpen: number;
+	windows: Map<number, WindowSum>;
+}
+
+// Oldest open wait and default-window utilization per store, so a summary only
+// looks at the ticks added since the last one.
+const runningTotals = new WeakMap<CollectorStore, RunningTotals>();
+
+function addToWindows(windows: Map<number, WindowSum>, sample: TickSample, window: number): void {
+	const start = Math.floor(sample.tick / window) * window;
+	const sum = windows.get(start) ?? { total: 0, ticks: 0 };
+	sum.total += sample.activeTaxis > 0 ? sample.busyTaxis / sample.activeTaxis : 0;
+	sum.ticks++;
+	windows.set(start, sum);
+}
+
+function totalsFor(collector: MetricsCollector): RunningTotals {
+	const { store, ticks } = collector;
+	let totals = runningTotals.get(store);
+	if (!totals || totals.ticks > ticks) {
+		// Scrubbed back to an earlier frame: start over from its ticks.
+		totals = { ticks: 0, oldestOpen: 0, windows: new Map() };
+		runningTotals.set(store, totals);
+	}
+	for (; totals.ticks < ticks; totals.ticks++) {
+		const sample = store.series[totals.ticks];
+		totals.oldestOpen = Math.max(totals.oldestOpen, sample.oldestWait);
+		addToWindows(totals.windows, sample, UTILIZATION_WINDOW);
+	}
+	return totals;
+}
+
+function toWindows(sums: Map<number, WindowSum>, window: number): UtilizationWindow[] {
+	return [...sums].map(([start, { total, ticks }]) => ({ start, end: start + window, utilization: total / ticks }));
+}
+
+function utilizationWindows(series: readonly TickSample[], window: number): UtilizationWindow[] {
+	const sums = new Map<number, WindowSum>();
+	for (const sample of series) addToWindows(sums, sample, window);
+	return toWindows(sums, window);
+}
+
+const reports = new WeakMap<MetricsCollector, MetricsReport>();
+
+/** Memoised per collector for the default window, since the UI asks again on every render. */
+export function summarizeCollector(collector: MetricsCollector, window = UTILIZATION_WINDOW): MetricsReport {
+	const cached = window === UTILIZATION_WINDOW ? reports.get(collector) : undefined;
+	if (cached) return cached;
+
+	const sorted = sortedPassengers(collector);
+	const totals = totalsFor(collector);
+	const wait = distribution(sorted.waits);
+	const last = collector.ticks > 0 ? collector.store.series[collector.ticks - 1] : undefined;
+
+	const report = {
+		wait,
+		trip: distribution(sorted.trips),
+		maxWait: Math.max(wait.max, totals.oldestOpen),
+		utilization: window === UTILIZATION_WINDOW
+			? toWindows(totals.windows, window)
+			: utilizationWindows(tickSamples(collector), window),
+		deadheadRatio: last && last.loadedDistance > 0 ? last.deadheadDistance / last.loadedDistance : 0,
+	};
+	if (window === UTILIZATION_WINDOW) reports.set(collector, report);
+	return report;
+}
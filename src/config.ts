@@ -0,0 +1,42 @@
+import type { SimulationConfig } from './types';
+
+export const DEFAULT_CONFIG: SimulationConfig = {
+	cityLayout: 'grid',
+	cityWidth: 40,
+	cityHeight: 36,
+	numTaxis: 12,
+	queueSize: 12,
+	passengerSpawnChance: 0.7,
+	ticksPerSpawnCheck: 5,
+	burstChance: 0.1,
+	burstMinSize: 4,
+	burstMaxSize: 11,
+	taxiCapacity: 4,
+	maxDetourRatio: 1.5,
+	rebalanceWindow: 100,
+	reassignThreshold: 3,
+	congestionFactor: 0,
+	backgroundTraffic: 0,
+	backgroundTrafficPeriod: 200,
+	oneWayFraction: 0,
+	noUTurn: false,
+	noLeftTurn: false,
+	ticksPerDay: 720,
+	startHour: 6,
+	patienceDistribution: 'infinite',
+	patienceMean: 150,
+	patienceSpread: 50,
+	batteryRange: 0,
+	chargeRate: 4,
+	lowBatteryThreshold: 0.25,
+	numChargingStations: 0,
+	shifts: [],
+	shiftEndBehavior: 'depot',
+	baseFare: 3,
+	farePerCell: 0.5,
+	fareWaitingRate: 0.2,
+	deadheadCostPerCell: 0.3,
+	incidents: [],
+};
+
+export const DEFAULT_SEED = 12344;
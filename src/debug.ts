@@ -0,0 +1,14 @@
+let enabled = false;
+
+/** Per-tick diagnostics are off by default: on a fast run they flood the console and slow it down. */
+export function setDebugLogging(on: boolean): void {
+	enabled = on;
+}
+
+export function isDebugLogging(): boolean {
+	return enabled;
+}
+
+export function debugLog(...args: unknown[]): void {
+	if (enabled) console.log(...args);
+}
@@ -0,0 +1,158 @@
+import type { City, Position, SimulationConfig } from './types';
+
+export type ZoneKind = 'residential' | 'commercial' | 'nightlife';
+
+export interface ZoneLayout {
+	id: string;
+	kind: ZoneKind;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export interface Zone extends ZoneLayout {
+	spots: Position[];
+}
+
+export interface DemandModel {
+	zones: Zone[];
+	/** Mean of the unnormalised intensity over a day, so `intensity` averages to 1. */
+	dailyMean: number;
+}
+
+const DISTRICTS_X = 3;
+const DISTRICTS_Y = 3;
+
+// Probability that a trip starting in a zone of the row kind ends in a zone of the column kind.
+export const OD_MATRIX: Record<ZoneKind, Record<ZoneKind, number>> = {
+	residential: { residential: 0.15, commercial: 0.7, nightlife: 0.15 },
+	commercial: { residential: 0.6, commercial: 0.25, nightlife: 0.15 },
+	nightlife: { residential: 0.75, commercial: 0.05, nightlife: 0.2 },
+};
+
+function peak(hour: number, center: number, width: number): number {
+	const d = Math.min(Math.abs(hour - center), 24 - Math.abs(hour - center));
+	return Math.exp(-(d * d) / (2 * width * width));
+}
+
+// Relative trip origins per zone kind over the day: commuters leave home in the
+// morning, offices empty in the evening and nightlife picks up late.
+const ORIGIN_PROFILES: Record<ZoneKind, (hour: number) => number> = {
+	residential: h => 0.3 + 1.6 * peak(h, 8, 1.5) + 0.4 * peak(h, 19, 2),
+	commercial: h => 0.3 + 0.5 * peak(h, 13, 2) + 1.6 * peak(h, 17.5, 1.5),
+	nightlife: h => 0.1 + 1.5 * peak(h, 23, 2),
+};
+
+export function hourOfDay(tick: number, config: SimulationConfig): number {
+	return (config.startHour + (tick / config.ticksPerDay) * 24) % 24;
+}
+
+function zoneActivity(zone: Zone, hour: number): number {
+	return zone.spots.length * ORIGIN_PROFILES[zone.kind](hour);
+}
+
+/**
+ * Splits the city into districts and gives each a land use: the centre is
+ * commercial, one outer district is nightlife and the rest are residential.
+ */
+export function createDemandModel(city: City, random: () => number): DemandModel {
+	const layout: ZoneLayout[] = [];
+	const centerX = Math.floor(DISTRICTS_X / 2);
+	const centerY = Math.floor(DISTRICTS_Y / 2);
+	const nightlife = Math.floor(random() * (DISTRICTS_X * DISTRICTS_Y - 1));
+	let outer = 0;
+
+	for (let dy = 0; dy < DISTRICTS_Y; dy++) {
+		for (let dx = 0; dx < DISTRICTS_X; dx++) {
+			const x = Math.floor((dx * city.width) / DISTRICTS_X);
+			const y = Math.floor((dy * city.height) / DISTRICTS_Y);
+			const width = Math.floor(((dx + 1) * city.width) / DISTRICTS_X) - x;
+			const height = Math.floor(((dy + 1) * city.height) / DISTRICTS_Y) - y;
+
+			let kind: ZoneKind = 'residential';
+			if (dx === centerX && dy === centerY) {
+				kind = 'commercial';
+			} else if (outer++ === nightlife) {
+				kind = 'nightlife';
+			}
+
+			layout.push({ id: `zone-${layout.length}`, kind, x, y, width, height });
+		}
+	}
+
+	return demandModelFromLayout(city, layout);
+}
+
+export function demandModelFromLayout(city: City, layout: ZoneLayout[]): DemandModel {
+	const zones: Zone[] = layout.map(zone => ({
+		...zone,
+		spots: city.pickupSpots.filter(p =>
+			p.x >= zone.x && p.x < zone.x + zone.width && p.y >= zone.y && p.y < zone.y + zone.height
+		),
+	}));
+
+	const samples = 96;
+	let total = 0;
+	for (let i = 0; i < samples; i++) {
+		const hour = (i * 24) / samples;
+		total += zones.reduce((sum, zone) => sum + zoneActivity(zone, hour), 0);
+	}
+
+	return { zones, dailyMean: total / samples };
+}
+
+/** Demand relative to the daily average (1 = average) at the given hour. */
+export function intensity(model: DemandModel, hour: number): number {
+	if (model.dailyMean === 0) return 0;
+	return model.zones.reduce((sum, zone) => sum + zoneActivity(zone, hour), 0) / model.dailyMean;
+}
+
+function pickWeighted<T>(items: T[], weight: (item: T) => number, random: () => number): T | undefined {
+	const total = items.reduce((sum, item) => sum + weight(item), 0);
+	if (total <= 0) return undefined;
+
+	let roll = random() * total;
+	for (const item of items) {
+		roll -= weight(item);
+		if (roll < 0) return item;
+	}
+	return items[items.length - 1];
+}
+
+function pickSpot(zone: Zone, random: () => number, exclude?: Position): Position | undefined {
+	const spots = exclude
+		? zone.spots.filter(p => p.x !== exclude.x || p.y !== exclude.y)
+		: zone.spots;
+	if (spots.length === 0) return undefined;
+	return spots[Math.floor(random() * spots.length)];
+}
+
+/** Draws one trip: origin zone by time-of-day activity, destination zone by the OD matrix. */
+export function sampleTrip(
+	model: DemandModel,
+	hour: number,
+	random: () => number,
+	origin?: Zone
+): { pickup: Position; destination: Position } | undefined {
+	const from = origin ?? pickWeighted(model.zones, zone => zoneActivity(zone, hour), random);
+	if (!from) return undefined;
+	const pickup = pickSpot(from, random);
+	if (!pickup) return undefined;
+
+	const row = OD_MATRIX[from.kind];
+	const kindTotals = new Map<ZoneKind, number>();
+	for (const zone of model.zones) {
+		kindTotals.set(zone.kind, (kindTotals.get(zone.kind) ?? 0) + zone.spots.length);
+	}
+	// Spread each kind's share over its zones by size, skipping kinds the city lacks.
+	const to = pickWeighted(model.zones, zone => {
+		const kindTotal = kindTotals.get(zone.kind) ?? 0;
+		const spots = zone === from ? zone.spots.length - 1 : zone.spots.length;
+		return kindTotal > 0 ? (row[zone.kind] * Math.max(spots, 0)) / kindTotal : 0;
+	}, random);
+	if (!to) return undefined;
+
+	const destination = pickSpot(to, random, pickup);
+	return destination ? { pickup, destination } : undefined;
+}
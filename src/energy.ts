@@ -0,0 +1,40 @@
+import type { Position, SimulationState, Taxi } from './types';
+import { distanceOracle } from './traffic';
+
+/** The charging station cheapest to reach from `from`, or undefined if none is reachable. */
+export function nearestCharger(
+	state: SimulationState,
+	from: Position,
+	heading?: Taxi['heading']
+): { station: Position; distance: number } | undefined {
+	const oracle = distanceOracle(state);
+	let best: { station: Position; distance: number } | undefined;
+
+	for (const station of state.city.chargingStations) {
+		const distance = oracle.distance(from, station, heading);
+		if (distance < Infinity && (!best || distance < best.distance)) {
+			best = { station, distance };
+		}
+	}
+	return best;
+}
+
+/**
+ * Whether the taxi can drive `routeCost` and still reach a charger from where
+ * the route ends. Travel costs never undercount cells, so this errs on the
+ * safe side under congestion. Taxis without a battery never run out.
+ */
+export function hasRangeFor(state: SimulationState, taxi: Taxi, routeCost: number, end: Position): boolean {
+	if (taxi.batteryCapacity === 0) {
+		return true;
+	}
+	if (state.city.chargingStations.length === 0) {
+		return taxi.battery >= routeCost;
+	}
+	const reserve = nearestCharger(state, end)?.distance ?? Infinity;
+	return taxi.battery >= routeCost + reserve;
+}
+
+export function needsCharge(state: SimulationState, taxi: Taxi): boolean {
+	return taxi.battery < taxi.batteryCapacity * state.energy.lowBatteryThreshold;
+}
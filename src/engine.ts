@@ -0,0 +1,331 @@
+import type { City, Passenger, SimulationConfig } from './types';
+import { createSpawner, spawnForTick, type PassengerSpawner } from './spawner';
+import { releaseTrace, rewindTrace, toTraceRecord, type TraceRecord, type TraceSource } from './trace';
+import {
+	captureFrame,
+	isScrubbing,
+	pushFrame,
+	replaceFrame,
+	restoreSources,
+	seekTick,
+	startTimeline,
+	type Timeline,
+	type TimelineFrame,
+} from './timeline';
+import { createSnapshot, restoreSnapshot } from './snapshot';
+import {
+	createLanes,
+	advanceLanes,
+	addPassengersToLanes,
+	changeNetworkInLanes,
+	laneSpecKey,
+	type Lane,
+	type LaneSpec,
+} from './lanes';
+import { setRoadsClosed } from './incidents';
+import { isDebugLogging, setDebugLogging } from './debug';
+import { diffLanes, type EngineCommand, type EngineEvent, type EngineRequest, type EngineResults, type EngineSpeed } from './engineProtocol';
+
+const TICK_INTERVAL_MS = 100;
+const MANUAL_ID_PREFIX = 'manual-';
+// Updates are posted at most this often, however fast the run ticks.
+const FRAME_MS = 16;
+
+function advanceRun(
+	lanes: Lane[],
+	spawner: PassengerSpawner,
+	trace: TraceSource | null,
+	recorded: TraceRecord[],
+	config: SimulationConfig
+): Lane[] {
+	const currentTick = lanes[0].state.tick;
+	const { manual, spawned } = trace
+		? releaseTrace(trace, currentTick)
+		: { manual: [], spawned: spawnForTick(spawner, currentTick, config) };
+	recorded.push(...manual.map(p => toTraceRecord(p, true)), ...spawned.map(p => toTraceRecord(p)));
+
+	const withManual = manual.length > 0 ? addPassengersToLanes(lanes, manual, config) : lanes;
+	return advanceLanes(withManual, spawned, config);
+}
+
+// Derived from the ids already in use rather than counted, so trips added after
+// restoring a snapshot or while replaying a trace never reuse one.
+function nextManualId(...lists: TraceRecord[][]): string {
+	let next = 0;
+	for (const records of lists) {
+		for (const { id } of records) {
+			if (!id.startsWith(MANUAL_ID_PREFIX)) continue;
+			const n = Number(id.slice(MANUAL_ID_PREFIX.length));
+			if (Number.isInteger(n) && n >= next) next = n + 1;
+		}
+	}
+	return `${MANUAL_ID_PREFIX}${next}`;
+}
+
+function reportStuckPassengers(lanes: Lane[]): void {
+	for (const lane of lanes) {
+		const { state } = lane;
+		for (const p of state.waitingPassengers) {
+			if (!p.assignedTaxiId && !p.unreachable && (state.tick - p.spawnTick) > 100) {
+				console.error(`[${laneSpecKey(lane).toUpperCase()}] Passenger ${p.id} stuck waiting for ${state.tick - p.spawnTick} ticks at (${p.pickup.x}, ${p.pickup.y})`);
+			}
+		}
+	}
+}
+
+export interface Engine {
+	handle: (command: EngineCommand) => void;
+}
+
+/**
+ * Owns a run and its timeline, and reports to `post` what the UI needs to draw
+ * it. Lives in a worker (see `engine.worker.ts`) so ticking never blocks rendering.
+ */
+export function createEngine(post: (event: EngineEvent) => void): Engine {
+	let seed = 0;
+	let config: SimulationConfig;
+	let specs: LaneSpec[] = [];
+	// The edited map, if any; otherwise every reset generates the city from the seed.
+	let city: City | null = null;
+	let timeline: Timeline | null = null;
+	let spawner: PassengerSpawner;
+	let trace: TraceSource | null = null;
+	// Every passenger fed to the lanes, in order, so the run can be exported as a trace.
+	let recorded: TraceRecord[] = [];
+
+	let running = false;
+	let speed: EngineSpeed = 1;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let tickDebt = 0;
+	let lastLoop = 0;
+	// Set while simulating ahead to a seek target: the run goes at full speed and pauses there.
+	let stopAt: number | null = null;
+	// The frame the UI holds, which diffs are taken against.
+	let posted: TimelineFrame | null = null;
+	let lastPost = 0;
+
+	const currentFrame = () => timeline!.frames[timeline!.cursor];
+	const currentLanes = () => currentFrame().lanes;
+	const lastTick = () => timeline!.frames[timeline!.frames.length - 1].tick;
+
+	// The passenger sources as they stood at the current frame, which lag the
+	// latest ones while the user is scrubbing back through the timeline.
+	const sourcesAtCursor = () => {
+		if (!isScrubbing(timeline!)) {
+			return { spawner, trace, recorded };
+		}
+		const frame = timeline!.frames[timeline!.cursor];
+		return { ...restoreSources(frame, spawner, trace), recorded: recorded.slice(0, frame.recordedLength) };
+	};
+
+	// Anything that changes the run from an earlier frame forks it there.
+	const forkAtCursor = () => {
+		({ spawner, trace, recorded } = sourcesAtCursor());
+	};
+
+	const sync = () => {
+		posted = currentFrame();
+		const { lanes } = posted;
+		lastPost = performance.now();
+		post({
+			type: 'sync',
+			view: {
+				seed,
+				config,
+				specs,
+				lanes,
+				firstTick: timeline!.frames[0].tick,
+				lastTick: lastTick(),
+				running,
+				zones: spawner.demand.zones,
+				trace: trace && { name: trace.name, format: trace.format, length: trace.records.length },
+			},
+		});
+	};
+
+	const flush = () => {
+		const frame = currentFrame();
+		if (!posted || frame.lanes === posted.lanes) return;
+		post({ type: 'diff', lanes: diffLanes(posted, frame.lanes), firstTick: timeline!.frames[0].tick, lastTick: lastTick() });
+		posted = frame;
+		lastPost = performance.now();
+	};
+
+	const replaceLanes = (lanes: Lane[]) => {
+		timeline = replaceFrame(timeline!, captureFrame(lanes, spawner, trace, recorded.length));
+		flush();
+	};
+
+	const tick = () => {
+		forkAtCursor();
+		const next = advanceRun(currentLanes(), spawner, trace, recorded, config);
+
+		if (isDebugLogging()) {
+			reportStuckPassengers(next);
+		}
+
+		timeline = pushFrame(timeline!, captureFrame(next, spawner, trace, recorded.length));
+	};
+
+	// Ticks for at most one frame's worth of time per call, so commands are never kept waiting.
+	const loop = () => {
+		timer = null;
+		if (!running) return;
+
+		const now = performance.now();
+		const sliceEnd = now + FRAME_MS;
+		if (stopAt !== null) {
+			do {
+				tick();
+			} while (performance.now() < sliceEnd && currentLanes()[0].state.tick < stopAt);
+			if (currentLanes()[0].state.tick >= stopAt) {
+				setRunning(false);
+				return;
+			}
+		} else if (speed === 'max') {
+			do {
+				tick();
+			} while (performance.now() < sliceEnd);
+		} else {
+			tickDebt += ((now - lastLoop) * speed) / TICK_INTERVAL_MS;
+			while (tickDebt >= 1 && performance.now() < sliceEnd) {
+				tick();
+				tickDebt--;
+			}
+			// Drop any backlog rather than racing to catch up after a slow stretch.
+			tickDebt = Math.min(tickDebt, 1);
+		}
+		lastLoop = now;
+
+		if (performance.now() - lastPost >= FRAME_MS) {
+			flush();
+		}
+		const wait = speed === 'max' || stopAt !== null ? 0 : ((1 - tickDebt) * TICK_INTERVAL_MS) / speed;
+		timer = setTimeout(loop, wait);
+	};
+
+	const setRunning = (next: boolean) => {
+		if (running === next) return;
+		running = next;
+		stopAt = null;
+		if (running) {
+			tickDebt = 1;
+			lastLoop = performance.now();
+			timer = setTimeout(loop, 0);
+		} else {
+			if (timer) clearTimeout(timer);
+			timer = null;
+			flush();
+		}
+		post({ type: 'status', running });
+	};
+
+	const reset = () => {
+		running = false;
+		stopAt = null;
+		if (timer) clearTimeout(timer);
+		timer = null;
+		const lanes = createLanes(config, seed, specs, city ?? undefined);
+		spawner = createSpawner(seed, lanes[0].state.city);
+		trace = trace && rewindTrace(trace);
+		recorded = [];
+		timeline = startTimeline(captureFrame(lanes, spawner, trace, 0));
+		sync();
+	};
+
+	const seek = (target: number) => {
+		setRunning(false);
+		if (target <= lastTick()) {
+			timeline = seekTick(timeline!, target);
+			sync();
+			return;
+		}
+
+		// Past the end of the history: simulate ahead from the latest frame, a
+		// slice at a time so a pause or reset can still cut in.
+		timeline = seekTick(timeline!, lastTick());
+		sync();
+		setRunning(true);
+		stopAt = target;
+	};
+
+	const respond = (request: EngineRequest): EngineResults[keyof EngineResults] => {
+		switch (request.type) {
+			case 'save':
+				return createSnapshot({ seed, config, lanes: currentLanes(), ...sourcesAtCursor() });
+			case 'exportTrace':
+				return sourcesAtCursor().recorded;
+			case 'restore': {
+				const run = restoreSnapshot(request.snapshot);
+				setRunning(false);
+				({ seed, config, spawner, trace, recorded } = run);
+				specs = run.lanes.map(({ strategyId, repositioningId }) => ({ strategyId, repositioningId }));
+				city = run.lanes[0].state.city;
+				timeline = startTimeline(captureFrame(run.lanes, spawner, trace, recorded.length));
+				sync();
+				return city;
+			}
+		}
+	};
+
+	const handle = (command: EngineCommand) => {
+		switch (command.type) {
+			case 'reset':
+				({ seed, config, specs, city } = command);
+				reset();
+				break;
+			case 'start':
+				setRunning(true);
+				break;
+			case 'pause':
+				setRunning(false);
+				break;
+			case 'step':
+				if (!running) {
+					tick();
+					flush();
+				}
+				break;
+			case 'setSpeed':
+				speed = command.speed;
+				break;
+			case 'seek':
+				seek(command.tick);
+				break;
+			case 'addPassenger': {
+				forkAtCursor();
+				const passenger: Passenger = {
+					id: nextManualId(recorded, trace?.records ?? []),
+					pickup: command.pickup,
+					destination: command.destination,
+					spawnTick: currentLanes()[0].state.tick,
+				};
+				recorded.push(toTraceRecord(passenger, true));
+				replaceLanes(addPassengersToLanes(currentLanes(), [passenger], config));
+				break;
+			}
+			case 'setRoadsClosed': {
+				// Closures apply to every lane on the current frame and carry on from there.
+				const lanes = currentLanes();
+				forkAtCursor();
+				replaceLanes(changeNetworkInLanes(lanes, setRoadsClosed(lanes[0].state.city, command.cells, command.closed)));
+				break;
+			}
+			case 'setTrace':
+				trace = command.trace;
+				reset();
+				break;
+			case 'setDebugLogging':
+				setDebugLogging(command.enabled);
+				break;
+			default:
+				try {
+					post({ type: 'reply', requestId: command.requestId, result: respond(command) });
+				} catch (error) {
+					post({ type: 'reply', requestId: command.requestId, error: error instanceof Error ? error.message : String(error) });
+				}
+		}
+	};
+
+	return { handle };
+}
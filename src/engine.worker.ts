@@ -0,0 +1,6 @@
+import { createEngine } from './engine';
+import type { EngineCommand } from './engineProtocol';
+
+const engine = createEngine(event => self.postMessage(event));
+
+self.onmessage = (e: MessageEvent<EngineCommand>) => engine.handle(e.data);
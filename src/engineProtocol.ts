@@ -0,0 +1,145 @@
+import type { City, Metrics, Passenger, Position, SimulationConfig, Taxi } from './types';
+import type { Lane, LaneSpec } from './lanes';
+import { appendSamples, type PassengerSample, type TickSample } from './collector';
+import type { Zone } from './demand';
+import type { Snapshot } from './snapshot';
+import type { TraceFormat, TraceRecord, TraceSource } from './trace';
+import type { TimelineFrame } from './timeline';
+
+/** Multiple of the base rate of 10 ticks per second, or as fast as the CPU allows. */
+export type EngineSpeed = number | 'max';
+
+export interface TraceInfo {
+	name: string;
+	format: TraceFormat;
+	length: number;
+}
+
+/** Commands that answer with a `reply` event carrying the same `requestId`. */
+export type EngineRequest =
+	| { type: 'save' }
+	| { type: 'exportTrace' }
+	| { type: 'restore'; snapshot: Snapshot };
+
+export interface EngineResults {
+	save: Snapshot;
+	exportTrace: TraceRecord[];
+	/** The restored run's map, which later resets keep using. */
+	restore: City;
+}
+
+export type EngineCommand =
+	| { type: 'reset'; seed: number; config: SimulationConfig; specs: LaneSpec[]; city: City | null }
+	| { type: 'start' }
+	| { type: 'pause' }
+	| { type: 'step' }
+	| { type: 'setSpeed'; speed: EngineSpeed }
+	| { type: 'seek'; tick: number }
+	| { type: 'addPassenger'; pickup: Position; destination: Position }
+	| { type: 'setRoadsClosed'; cells: Position[]; closed: boolean }
+	| { type: 'setTrace'; trace: TraceSource | null }
+	| { type: 'setDebugLogging'; enabled: boolean }
+	| (EngineRequest & { requestId: number });
+
+/** What changed in one lane since the previous update; delivered and abandoned passengers only grow. */
+export interface LaneDiff {
+	tick: number;
+	taxis: Taxi[];
+	waitingPassengers: Passenger[];
+	activePassengers: Passenger[];
+	completed: Passenger[];
+	abandoned: Passenger[];
+	reassignments: number;
+	metrics: Metrics;
+	/** Only sent when the road network changed. */
+	city?: City;
+	samples: TickSample[];
+	delivered: PassengerSample[];
+}
+
+/** The whole run as the UI needs it; synced after anything that replaces the lanes on screen. */
+export interface EngineView {
+	seed: number;
+	config: SimulationConfig;
+	specs: LaneSpec[];
+	lanes: Lane[];
+	firstTick: number;
+	lastTick: number;
+	running: boolean;
+	zones: Zone[];
+	trace: TraceInfo | null;
+}
+
+export type EngineEvent =
+	| { type: 'sync'; view: EngineView }
+	| { type: 'diff'; lanes: LaneDiff[]; firstTick: number; lastTick: number }
+	| { type: 'status'; running: boolean }
+	| { type: 'reply'; requestId: number; result?: EngineResults[keyof EngineResults]; error?: string };
+
+/**
+ * Assumes `next` carries on from `prev`, which holds between two syncs. The
+ * closed passenger lists may be the same arrays grown since, so `prev` is a
+ * frame that recorded how long they were.
+ */
+export function diffLanes(prev: TimelineFrame, next: Lane[]): LaneDiff[] {
+	return next.map((lane, idx) => {
+		const before = prev.lanes[idx];
+		const closed = prev.closed[idx];
+		const { state, collector } = lane;
+		return {
+			tick: state.tick,
+			taxis: state.taxis,
+			waitingPassengers: state.waitingPassengers,
+			activePassengers: state.activePassengers,
+			completed: state.completedPassengers.slice(closed.completed),
+			abandoned: state.abandonedPassengers.slice(closed.abandoned),
+			reassignments: state.reassignments,
+			metrics: lane.metrics,
+			...(state.city !== before.state.city ? { city: state.city } : {}),
+			samples: collector.store.series.slice(before.collector.ticks, collector.ticks),
+			delivered: collector.store.passengers.slice(before.collector.delivered, collector.delivered),
+		};
+	});
+}
+
+/** Extends the closed passenger lists in place, like the engine does; the mirror keeps no older states. */
+export function applyLaneDiffs(lanes: Lane[], diffs: LaneDiff[]): Lane[] {
+	return lanes.map((lane, idx) => {
+		const diff = diffs[idx];
+		const { state, collector } = lane;
+		for (const passenger of diff.completed) state.completedPassengers.push(passenger);
+		for (const passenger of diff.abandoned) state.abandonedPassengers.push(passenger);
+		return {
+			...lane,
+			state: {
+				...state,
+				city: diff.city ?? state.city,
+				taxis: diff.taxis,
+				waitingPassengers: diff.waitingPassengers,
+				activePassengers: diff.activePassengers,
+				tick: diff.tick,
+				reassignments: diff.reassignments,
+			},
+			metrics: diff.metrics,
+			collector: appendSamples(collector, diff.samples, diff.delivered),
+		};
+	});
+}
+
+export function applyEngineEvent(view: EngineView | null, event: EngineEvent): EngineView | null {
+	switch (event.type) {
+		case 'sync':
+			return event.view;
+		case 'diff':
+			return view && {
+				...view,
+				lanes: applyLaneDiffs(view.lanes, event.lanes),
+				firstTick: event.firstTick,
+				lastTick: event.lastTick,
+			};
+		case 'status':
+			return view && { ...view, running: event.running };
+		case 'reply':
+			return view;
+	}
+}
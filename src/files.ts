@@ -0,0 +1,22 @@
+export function downloadText(filename: string, text: string, type = 'text/plain'): void {
+	const url = URL.createObjectURL(new Blob([text], { type }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/** Opens the browser's file picker and resolves with the chosen file's name and contents. */
+export function pickTextFile(accept: string): Promise<{ name: string; text: string } | null> {
+	return new Promise(resolve => {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = accept;
+		input.onchange = async () => {
+			const file = input.files?.[0];
+			resolve(file ? { name: file.name, text: await file.text() } : null);
+		};
+		input.click();
+	});
+}
@@ -0,0 +1,75 @@
+import type { Passenger, SimulationState } from './types';
+import { taxiCellCounts, type MetricsCollector } from './collector';
+
+export type HeatmapKind = 'pickups' | 'wait' | 'traffic' | 'idle';
+
+export interface Heatmap {
+	kind: HeatmapKind;
+	/** One value per cell, indexed `y * width + x`; NaN where there is nothing to show. */
+	values: Float64Array;
+	max: number;
+}
+
+export const HEATMAP_LABELS: Record<HeatmapKind, string> = {
+	pickups: 'Pickup requests',
+	wait: 'Avg wait at pickup',
+	traffic: 'Taxi traffic',
+	idle: 'Idle dwell',
+};
+
+/** How long a request waited: until pickup, until it gave up, or so far. */
+function waitOf(passenger: Passenger, tick: number): number {
+	return (passenger.pickedUpTick ?? passenger.abandonedTick ?? tick) - passenger.spawnTick;
+}
+
+function allRequests(state: SimulationState): Passenger[] {
+	return [
+		...state.completedPassengers,
+		...state.activePassengers,
+		...state.waitingPassengers,
+		...state.abandonedPassengers,
+	];
+}
+
+const heatmaps = new WeakMap<SimulationState, Partial<Record<HeatmapKind, Heatmap>>>();
+
+/** Accumulates one value per cell over the whole run so far; memoised per lane state. */
+export function computeHeatmap(kind: HeatmapKind, state: SimulationState, collector: MetricsCollector): Heatmap {
+	const cached = heatmaps.get(state)?.[kind];
+	if (cached) return cached;
+
+	const { width, height } = state.city;
+	let totals: Float64Array;
+	let counts: Float64Array;
+
+	if (kind === 'pickups' || kind === 'wait') {
+		totals = new Float64Array(width * height);
+		counts = new Float64Array(width * height);
+		for (const passenger of allRequests(state)) {
+			const cell = passenger.pickup.y * width + passenger.pickup.x;
+			totals[cell] += kind === 'wait' ? waitOf(passenger, state.tick) : 1;
+			counts[cell]++;
+		}
+	} else {
+		totals = taxiCellCounts(collector)[kind];
+		counts = totals;
+	}
+
+	const values = new Float64Array(width * height).fill(NaN);
+	let max = 0;
+	for (let i = 0; i < values.length; i++) {
+		if (counts[i] === 0) continue;
+		values[i] = kind === 'wait' ? totals[i] / counts[i] : totals[i];
+		max = Math.max(max, values[i]);
+	}
+
+	const heatmap = { kind, values, max };
+	heatmaps.set(state, { ...heatmaps.get(state), [kind]: heatmap });
+	return heatmap;
+}
+
+/** Yellow for the coolest cells through to red for the hottest. */
+export function heatColor(ratio: number): string {
+	const t = Math.min(Math.max(ratio, 0), 1);
+	return `hsla(${60 - t * 60}, 95%, 55%, ${0.2 + t * 0.6})`;
+}
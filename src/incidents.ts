@@ -0,0 +1,126 @@
+import type { City, Passenger, Position, RoadIncident, SimulationConfig, SimulationState, Taxi } from './types';
+import { isRoadCell, roadComponents, type RoadComponents } from './roads';
+import { networkOracle } from './traffic';
+import { planRoute, routeTaxi } from './simulation';
+
+const componentCache = new WeakMap<City, { version: number; components: RoadComponents }>();
+
+function componentsOf(city: City): RoadComponents {
+	const cached = componentCache.get(city);
+	if (cached && cached.version === city.version) return cached.components;
+
+	const components = roadComponents(city);
+	componentCache.set(city, { version: city.version, components });
+	return components;
+}
+
+/** Returns a copy of the city with the given road cells closed, or closed cells reopened; other cells are left alone. */
+export function setRoadsClosed(city: City, cells: Position[], closed: boolean): City {
+	const from = closed ? 'road' : 'closed';
+	const changed = cells.filter(p => city.grid[p.y]?.[p.x] === from);
+	if (changed.length === 0) return city;
+
+	const grid = city.grid.map(row => [...row]);
+	for (const p of changed) {
+		grid[p.y][p.x] = closed ? 'closed' : 'road';
+	}
+	return { ...city, grid, version: city.version + 1 };
+}
+
+/** Whether some taxi on shift can still get to the passenger's pickup, and from there to the destination. */
+export function isReachable(state: SimulationState, passenger: Passenger): boolean {
+	const { city } = state;
+	const { labels } = componentsOf(city);
+	const labelAt = (p: Position) => labels[p.y * city.width + p.x];
+
+	const component = labelAt(passenger.pickup);
+	if (component < 0) return false;
+	// A taxi stopped on a closed cell still drives out along its path.
+	const served = state.taxis.some(t => t.onShift && labelAt(t.path[0] ?? t.position) === component);
+	// Traffic only changes how long the trip takes, so the cached unit-cost oracle will do.
+	return served && networkOracle(city).distance(passenger.pickup, passenger.destination) !== Infinity;
+}
+
+function releasePassenger(state: SimulationState, passenger: Passenger): void {
+	const taxi = state.taxis.find(t => t.id === passenger.assignedTaxiId);
+	passenger.assignedTaxiId = undefined;
+	if (!taxi) return;
+
+	const nextStop = taxi.stops[0];
+	taxi.stops = taxi.stops.filter(stop => stop.passengerId !== passenger.id);
+	if (taxi.stops[0] !== nextStop) {
+		routeTaxi(state, taxi);
+	}
+}
+
+/**
+ * Flags waiting passengers nobody can serve and clears the flag on those who
+ * can be served again. Flagged passengers are taken off their taxi and
+ * skipped by every dispatcher until the network or the fleet on shift changes.
+ */
+export function updateReachability(state: SimulationState, passengers: Passenger[] = state.waitingPassengers): void {
+	for (const passenger of passengers) {
+		const reachable = isReachable(state, passenger);
+		passenger.unreachable = reachable ? undefined : true;
+		if (!reachable && passenger.assignedTaxiId) {
+			releasePassenger(state, passenger);
+		}
+	}
+}
+
+function rerouteTaxi(state: SimulationState, taxi: Taxi): void {
+	const next = taxi.path[0];
+	if (taxi.stops.length > 0) {
+		routeTaxi(state, taxi);
+	} else {
+		taxi.path = taxi.targetPosition ? planRoute(state, taxi, taxi.targetPosition) : [];
+		if (taxi.path.length === 0) {
+			// The charger, depot or rebalancing target is cut off; the next tick finds the taxi a new errand.
+			taxi.state = 'idle';
+			taxi.targetPosition = undefined;
+		}
+	}
+
+	if (!next || !taxi.path[0] || next.x !== taxi.path[0].x || next.y !== taxi.path[0].y) {
+		taxi.moveProgress = 0;
+	}
+}
+
+/** Moves the run onto `city`, rerouting every taxi whose path runs through a closed cell. */
+export function applyNetworkChange(state: SimulationState, city: City): void {
+	state.city = city;
+	for (const passenger of state.waitingPassengers) {
+		passenger.directDistance = undefined;
+	}
+	updateReachability(state);
+
+	for (const taxi of state.taxis) {
+		const blocked = taxi.path.some(p => !isRoadCell(city, p));
+		// Stops left but no path means an earlier closure cut the taxi off; try again.
+		const stranded = taxi.path.length === 0 && taxi.stops.length > 0;
+		if (blocked || stranded) {
+			rerouteTaxi(state, taxi);
+		}
+	}
+}
+
+function isActive(incident: RoadIncident, tick: number): boolean {
+	return tick >= incident.start && (incident.duration === undefined || tick < incident.start + incident.duration);
+}
+
+/** Closes and reopens the roads of incidents that start or end on the current tick. */
+export function applyIncidents(state: SimulationState, config: SimulationConfig): void {
+	const { tick } = state;
+	const starting = config.incidents.filter(i => i.start === tick);
+	const ending = config.incidents.filter(i => i.duration !== undefined && i.start + i.duration === tick);
+	if (starting.length === 0 && ending.length === 0) return;
+
+	// Overlapping incidents keep a shared cell closed until the last one ends.
+	const stillClosed = new Set(config.incidents.filter(i => isActive(i, tick)).flatMap(i => i.cells.map(p => `${p.x},${p.y}`)));
+	let city = setRoadsClosed(state.city, ending.flatMap(i => i.cells.filter(p => !stillClosed.has(`${p.x},${p.y}`))), false);
+	city = setRoadsClosed(city, starting.flatMap(i => i.cells), true);
+
+	if (city !== state.city) {
+		applyNetworkChange(state, city);
+	}
+}
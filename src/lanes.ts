@@ -0,0 +1,97 @@
+import type { City, SimulationState, SimulationConfig, Metrics, Passenger } from './types';
+import { createSimulation, cloneSimulationState, nextSimulationState, tickSimulation, calculateMetrics } from './simulation';
+import { getStrategy } from './strategies';
+import { applyRepositioning, getRepositioningPolicy } from './rebalancing';
+import { applyShifts } from './shifts';
+import { applyIncidents, applyNetworkChange, updateReachability } from './incidents';
+import { createCollector, recordTick, type MetricsCollector } from './collector';
+
+export interface LaneSpec {
+	strategyId: string;
+	repositioningId: string;
+}
+
+export interface Lane extends LaneSpec {
+	id: string;
+	state: SimulationState;
+	metrics: Metrics;
+	collector: MetricsCollector;
+}
+
+export function laneSpecKey({ strategyId, repositioningId }: LaneSpec): string {
+	return repositioningId === 'none' ? strategyId : `${strategyId}+${repositioningId}`;
+}
+
+export function parseLaneSpec(key: string): LaneSpec {
+	const [strategyId, repositioningId = 'none'] = key.split('+');
+	getStrategy(strategyId);
+	getRepositioningPolicy(repositioningId);
+	return { strategyId, repositioningId };
+}
+
+export function laneTitle({ strategyId, repositioningId }: LaneSpec): string {
+	const label = getStrategy(strategyId).label;
+	return repositioningId === 'none' ? label : `${label} + ${getRepositioningPolicy(repositioningId).label}`;
+}
+
+export function createLanes(config: SimulationConfig, seed: number, specs: LaneSpec[], city?: City): Lane[] {
+	const initial = createSimulation(config, seed, city);
+
+	return specs.map((spec, idx) => {
+		const state = cloneSimulationState(initial);
+		return { ...spec, id: `lane-${idx}`, state, metrics: calculateMetrics(state), collector: createCollector(state) };
+	});
+}
+
+export function advanceSimulation(
+	state: SimulationState,
+	spec: LaneSpec,
+	newPassengers: Passenger[],
+	config: SimulationConfig
+): void {
+	tickSimulation(state);
+	applyIncidents(state, config);
+	if (applyShifts(state, config)) {
+		updateReachability(state);
+	}
+	addPassengers(state, spec, newPassengers, config);
+	applyRepositioning(state, spec.repositioningId, config);
+}
+
+export function addPassengers(
+	state: SimulationState,
+	spec: LaneSpec,
+	passengers: Passenger[],
+	config: SimulationConfig
+): void {
+	const added = passengers.map(passenger => ({ ...passenger }));
+	state.waitingPassengers.push(...added);
+	updateReachability(state, added);
+
+	getStrategy(spec.strategyId).assign(state, config);
+}
+
+export function advanceLanes(lanes: Lane[], newPassengers: Passenger[], config: SimulationConfig): Lane[] {
+	return lanes.map(lane => {
+		const state = nextSimulationState(lane.state);
+		advanceSimulation(state, lane, newPassengers, config);
+		return { ...lane, state, metrics: calculateMetrics(state), collector: recordTick(lane.collector, state) };
+	});
+}
+
+export function addPassengersToLanes(lanes: Lane[], passengers: Passenger[], config: SimulationConfig): Lane[] {
+	return lanes.map(lane => {
+		const state = nextSimulationState(lane.state);
+		addPassengers(state, lane, passengers, config);
+		return { ...lane, state, metrics: calculateMetrics(state) };
+	});
+}
+
+/** Moves every lane onto the same changed road network at once. */
+export function changeNetworkInLanes(lanes: Lane[], city: City): Lane[] {
+	return lanes.map(lane => {
+		const state = nextSimulationState(lane.state);
+		applyNetworkChange(state, city);
+		return { ...lane, state, metrics: calculateMetrics(state) };
+	});
+}
@@ -0,0 +1,264 @@
+import type { CellType, City, Position } from './types';
+import { findPickupSpots, generateCity, twoWayStreets, type CityOptions } from './cityGenerator';
+import { DIRECTIONS, roadComponents, roadDegree, step } from './roads';
+import { seededRandom } from './random';
+
+/**
+ * Builds a city of the given size. Layouts other than `grid` have two-way
+ * streets only and ignore `oneWayFraction`.
+ */
+export interface CityLayout {
+	id: string;
+	label: string;
+	generate: (width: number, height: number, seed: number, options: CityOptions) => City;
+}
+
+const layouts = new Map<string, CityLayout>();
+
+export function registerLayout(layout: CityLayout): void {
+	if (layouts.has(layout.id)) {
+		throw new Error(`City layout "${layout.id}" is already registered`);
+	}
+	layouts.set(layout.id, layout);
+}
+
+export function getLayout(id: string): CityLayout {
+	const layout = layouts.get(id);
+	if (!layout) {
+		throw new Error(`Unknown city layout "${id}"`);
+	}
+	return layout;
+}
+
+export function listLayouts(): CityLayout[] {
+	return [...layouts.values()];
+}
+
+function emptyGrid(width: number, height: number): CellType[][] {
+	return Array.from({ length: height }, () => Array<CellType>(width).fill('empty'));
+}
+
+function inBounds(grid: CellType[][], pos: Position): boolean {
+	return pos.y >= 0 && pos.y < grid.length && pos.x >= 0 && pos.x < grid[0].length;
+}
+
+/** Paints a 4-connected road between two cells, so a taxi can drive the whole line. */
+function drawRoad(grid: CellType[][], from: Position, to: Position): void {
+	let { x, y } = from;
+	const dx = Math.abs(to.x - x);
+	const dy = Math.abs(to.y - y);
+	const sx = Math.sign(to.x - x);
+	const sy = Math.sign(to.y - y);
+	let error = dx - dy;
+
+	grid[y][x] = 'road';
+	while (x !== to.x || y !== to.y) {
+		if (2 * error > -dy) {
+			error -= dy;
+			x += sx;
+		} else {
+			error += dx;
+			y += sy;
+		}
+		grid[y][x] = 'road';
+	}
+}
+
+// Farthest-point spread over junctions, like the grid's intersections.
+function spreadChargingStations(city: City, count: number, random: () => number): Position[] {
+	const roads: Position[] = [];
+	for (let y = 0; y < city.height; y++) {
+		for (let x = 0; x < city.width; x++) {
+			if (city.grid[y][x] === 'road') roads.push({ x, y });
+		}
+	}
+	const junctions = roads.filter(p => roadDegree(city, p) >= 3);
+	const candidates = junctions.length >= count ? junctions : roads;
+	if (count <= 0 || candidates.length === 0) return [];
+
+	const stations = [candidates[Math.floor(random() * candidates.length)]];
+	while (stations.length < Math.min(count, candidates.length)) {
+		let best = candidates[0];
+		let bestDistance = -1;
+		for (const candidate of candidates) {
+			const distance = Math.min(...stations.map(s => Math.abs(s.x - candidate.x) + Math.abs(s.y - candidate.y)));
+			if (distance > bestDistance) {
+				best = candidate;
+				bestDistance = distance;
+			}
+		}
+		stations.push(best);
+	}
+	return stations;
+}
+
+/** Drops road fragments cut off from the main network, then fills in buildings, pickup spots and chargers. */
+export function finishCity(grid: CellType[][], seed: number, options: CityOptions): City {
+	const height = grid.length;
+	const width = grid[0].length;
+	const city: City = {
+		grid,
+		width,
+		height,
+		pickupSpots: [],
+		oneWay: twoWayStreets(width, height),
+		turnRules: options.turnRules ?? { noUTurn: false, noLeftTurn: false },
+		chargingStations: [],
+		version: 0,
+	};
+
+	const { labels, main } = roadComponents(city);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (grid[y][x] === 'road' && labels[y * width + x] !== main) grid[y][x] = 'empty';
+		}
+	}
+
+	const random = seededRandom(seed + 3);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			if (grid[y][x] === 'road') continue;
+			const nearRoad = DIRECTIONS.some(dir => {
+				const next = step({ x, y }, dir);
+				return inBounds(grid, next) && grid[next.y][next.x] === 'road';
+			});
+			grid[y][x] = (nearRoad ? random() > 0.15 : random() > 0.7) ? 'building' : 'empty';
+		}
+	}
+
+	city.pickupSpots = findPickupSpots(grid, width, height);
+	city.chargingStations = spreadChargingStations(city, options.chargingStations ?? 0, seededRandom(seed + 11));
+	return city;
+}
+
+// Streets branch off existing ones at random, wander, and stop when they would
+// run alongside another street or join it, which leaves loops and dead ends.
+function organicCity(width: number, height: number, seed: number, options: CityOptions): City {
+	const random = seededRandom(seed);
+	const grid = emptyGrid(width, height);
+	const roads: Position[] = [];
+	const isRoad = (p: Position) => inBounds(grid, p) && grid[p.y][p.x] === 'road';
+	const pave = (p: Position) => {
+		grid[p.y][p.x] = 'road';
+		roads.push(p);
+	};
+
+	let y = Math.floor(height / 2);
+	for (let x = 0; x < width; x++) {
+		pave({ x, y });
+		if (x > 0 && x < width - 1 && random() < 0.2) {
+			y = Math.min(Math.max(y + (random() < 0.5 ? -1 : 1), 1), height - 2);
+			pave({ x, y });
+		}
+	}
+
+	const target = width * height * 0.28;
+	for (let attempt = 0; attempt < 5000 && roads.length < target; attempt++) {
+		let pos = roads[Math.floor(random() * roads.length)];
+		let dir = DIRECTIONS[Math.floor(random() * DIRECTIONS.length)];
+		const length = 3 + Math.floor(random() * 10);
+
+		for (let i = 0; i < length; i++) {
+			const next = step(pos, dir);
+			if (!inBounds(grid, next) || isRoad(next)) break;
+			const sides = dir === 'north' || dir === 'south' ? (['west', 'east'] as const) : (['north', 'south'] as const);
+			if (sides.some(side => isRoad(step(next, side)))) break;
+
+			pave(next);
+			pos = next;
+			if (random() < 0.2) {
+				dir = sides[Math.floor(random() * 2)];
+			}
+		}
+	}
+
+	return finishCity(grid, seed, options);
+}
+
+// Concentric ring roads crossed by spokes from the centre.
+function radialCity(width: number, height: number, seed: number, options: CityOptions): City {
+	const random = seededRandom(seed);
+	const grid = emptyGrid(width, height);
+	const cx = Math.floor(width / 2);
+	const cy = Math.floor(height / 2);
+	const clampX = (x: number) => Math.min(Math.max(Math.round(x), 0), width - 1);
+	const clampY = (y: number) => Math.min(Math.max(Math.round(y), 0), height - 1);
+
+	const ringSpacing = 4 + Math.floor(random() * 2);
+	const maxRadius = Math.min(width, height) / 2 - 1;
+	for (let r = ringSpacing; r <= maxRadius; r += ringSpacing) {
+		const steps = Math.ceil(2 * Math.PI * r);
+		let prev = { x: clampX(cx + r), y: cy };
+		for (let i = 1; i <= steps; i++) {
+			const angle = (i / steps) * 2 * Math.PI;
+			const next = { x: clampX(cx + r * Math.cos(angle)), y: clampY(cy + r * Math.sin(angle)) };
+			drawRoad(grid, prev, next);
+			prev = next;
+		}
+	}
+
+	const spokes = 6 + Math.floor(random() * 5);
+	const offset = random() * ((2 * Math.PI) / spokes);
+	const reach = Math.max(width, height);
+	for (let i = 0; i < spokes; i++) {
+		const angle = offset + (i / spokes) * 2 * Math.PI;
+		drawRoad(grid, { x: cx, y: cy }, { x: clampX(cx + reach * Math.cos(angle)), y: clampY(cy + reach * Math.sin(angle)) });
+	}
+
+	return finishCity(grid, seed, options);
+}
+
+const DISTRICT_SPACINGS = [4, 6, 9];
+
+// Three-by-three districts bounded by arterials; the centre is a dense grid and
+// every other district gets its own, mostly sparser, street spacing.
+function districtCity(width: number, height: number, seed: number, options: CityOptions): City {
+	const random = seededRandom(seed);
+	const grid = emptyGrid(width, height);
+	const split = (size: number) => [
+		0,
+		Math.round(size / 3 + (random() - 0.5) * (size / 8)),
+		Math.round((2 * size) / 3 + (random() - 0.5) * (size / 8)),
+		size - 1,
+	];
+	const xs = split(width);
+	const ys = split(height);
+
+	for (const x of xs) drawRoad(grid, { x, y: 0 }, { x, y: height - 1 });
+	for (const y of ys) drawRoad(grid, { x: 0, y }, { x: width - 1, y });
+
+	for (let i = 0; i < 3; i++) {
+		for (let j = 0; j < 3; j++) {
+			const spacing = i === 1 && j === 1 ? 3 : DISTRICT_SPACINGS[Math.floor(random() * DISTRICT_SPACINGS.length)];
+			const [x0, x1, y0, y1] = [xs[i], xs[i + 1], ys[j], ys[j + 1]];
+			for (let x = x0 + spacing; x < x1 - 1; x += spacing) drawRoad(grid, { x, y: y0 }, { x, y: y1 });
+			for (let y = y0 + spacing; y < y1 - 1; y += spacing) drawRoad(grid, { x: x0, y }, { x: x1, y });
+		}
+	}
+
+	return finishCity(grid, seed, options);
+}
+
+registerLayout({
+	id: 'grid',
+	label: 'Grid',
+	generate: generateCity,
+});
+
+registerLayout({
+	id: 'organic',
+	label: 'Organic',
+	generate: organicCity,
+});
+
+registerLayout({
+	id: 'radial',
+	label: 'Radial',
+	generate: radialCity,
+});
+
+registerLayout({
+	id: 'districts',
+	label: 'Districts',
+	generate: districtCity,
+});
@@ -0,0 +1,76 @@
+import type { CellType, City, Position } from './types';
+import { hasRoads, isRoadCell } from './roads';
+import { deserializeCity, serializeCity, type SerializedCity } from './snapshot';
+import { parseAsciiMap } from './asciiMap';
+
+export type EditTool = CellType | 'pickup';
+
+export const MAP_FILE_VERSION = 1;
+
+interface MapFile {
+	version: number;
+	city: SerializedCity;
+}
+
+const samePosition = (a: Position, b: Position) => a.x === b.x && a.y === b.y;
+
+/**
+ * Returns a copy of the city with one cell changed. Pickup spots and chargers
+ * only live on roads, so painting over a road removes them too. The last road
+ * cannot be painted over, since taxis need somewhere to start.
+ */
+export function paintCell(city: City, pos: Position, tool: EditTool): City {
+	if (tool === 'pickup') {
+		if (!isRoadCell(city, pos)) return city;
+		const exists = city.pickupSpots.some(p => samePosition(p, pos));
+		return {
+			...city,
+			pickupSpots: exists ? city.pickupSpots.filter(p => !samePosition(p, pos)) : [...city.pickupSpots, { ...pos }],
+			version: city.version + 1,
+		};
+	}
+
+	if (city.grid[pos.y][pos.x] === tool) return city;
+
+	const grid = city.grid.map((row, y) => (y === pos.y ? row.map((cell, x) => (x === pos.x ? tool : cell)) : row));
+	const oneWay = city.oneWay.map((row, y) => (y === pos.y ? row.map((dir, x) => (x === pos.x ? null : dir)) : row));
+	const onRoad = (p: Position) => tool === 'road' || !samePosition(p, pos);
+
+	if (tool !== 'road' && !hasRoads({ ...city, grid })) return city;
+
+	return {
+		...city,
+		grid,
+		oneWay,
+		pickupSpots: city.pickupSpots.filter(onRoad),
+		chargingStations: city.chargingStations.filter(onRoad),
+		version: city.version + 1,
+	};
+}
+
+export function formatMapFile(city: City): string {
+	const file: MapFile = { version: MAP_FILE_VERSION, city: serializeCity(city) };
+	return JSON.stringify(file, null, 2);
+}
+
+/** Reads either a JSON map file or a plain-text map (see `asciiMap.ts`). */
+export function parseMapFile(text: string): City {
+	if (!text.trimStart().startsWith('{')) {
+		return parseAsciiMap(text);
+	}
+
+	const data = JSON.parse(text);
+	if (typeof data !== 'object' || data === null || data.version !== MAP_FILE_VERSION || !data.city) {
+		throw new Error(`Not a map file (expected version ${MAP_FILE_VERSION})`);
+	}
+
+	const { city } = data as MapFile;
+	if (city.grid.length !== city.height || city.grid.some(row => row.length !== city.width)) {
+		throw new Error(`Map grid does not match its ${city.width}×${city.height} size`);
+	}
+	const parsed = deserializeCity(city);
+	if (!hasRoads(parsed)) {
+		throw new Error('Map has no roads');
+	}
+	return parsed;
+}
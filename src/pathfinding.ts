@@ -1,89 +1,134 @@
-import type { City, Position } from './types';
-
-interface Node {
-	pos: Position;
-	g: number;
-	h: number;
-	f: number;
-	parent?: Node;
+import type { City, Direction, Position } from './types';
+import { DIRECTIONS, canMove, isRoadCell, isTurnAllowed, opposite, step } from './roads';
+
+export type CellCost = (pos: Position) => number;
+
+const unitCost: CellCost = () => 1;
+
+// Search states are packed into integers: the cell index, plus the heading the
+// cell was entered with when turn restrictions make that matter. Index 4 means
+// "no heading yet" and only occurs at the start of a search.
+const NO_HEADING = 4;
+
+interface HeapEntry {
+	key: number;
+	priority: number;
+	seq: number;
+}
+
+function heapLess(a: HeapEntry, b: HeapEntry): boolean {
+	return a.priority < b.priority || (a.priority === b.priority && a.seq < b.seq);
+}
+
+function heapPush(heap: HeapEntry[], entry: HeapEntry): void {
+	heap.push(entry);
+	let i = heap.length - 1;
+	while (i > 0) {
+		const parent = (i - 1) >> 1;
+		if (!heapLess(heap[i], heap[parent])) break;
+		[heap[i], heap[parent]] = [heap[parent], heap[i]];
+		i = parent;
+	}
+}
+
+function heapPop(heap: HeapEntry[]): HeapEntry | undefined {
+	const top = heap[0];
+	const last = heap.pop();
+	if (heap.length > 0 && last) {
+		heap[0] = last;
+		let i = 0;
+		for (;;) {
+			const left = i * 2 + 1;
+			const right = left + 1;
+			let smallest = i;
+			if (left < heap.length && heapLess(heap[left], heap[smallest])) smallest = left;
+			if (right < heap.length && heapLess(heap[right], heap[smallest])) smallest = right;
+			if (smallest === i) break;
+			[heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+			i = smallest;
+		}
+	}
+	return top;
 }
 
 function heuristic(a: Position, b: Position): number {
 	return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
 }
 
-function posKey(pos: Position): string {
-	return `${pos.x},${pos.y}`;
+function turnsMatter(city: City): boolean {
+	return city.turnRules.noUTurn || city.turnRules.noLeftTurn;
+}
+
+function headingIndex(heading: Direction | undefined): number {
+	return heading ? DIRECTIONS.indexOf(heading) : NO_HEADING;
 }
 
-export function findPath(city: City, start: Position, end: Position): Position[] {
-	if (start.x === end.x && start.y === end.y) {
+function samePosition(a: Position, b: Position): boolean {
+	return a.x === b.x && a.y === b.y;
+}
+
+export function findPath(
+	city: City,
+	start: Position,
+	end: Position,
+	cost: CellCost = unitCost,
+	heading?: Direction
+): Position[] {
+	if (samePosition(start, end)) {
 		return [end];
 	}
 
-	const openSet: Node[] = [];
-	const closedSet = new Set<string>();
-
-	const startNode: Node = {
-		pos: start,
-		g: 0,
-		h: heuristic(start, end),
-		f: heuristic(start, end),
+	const stride = turnsMatter(city) ? 5 : 1;
+	const stateKey = (pos: Position, dir: Direction | undefined) =>
+		(pos.y * city.width + pos.x) * stride + (stride > 1 ? headingIndex(dir) : 0);
+	const decode = (key: number): { pos: Position; heading?: Direction } => {
+		const cell = Math.floor(key / stride);
+		const idx = key % stride;
+		return {
+			pos: { x: cell % city.width, y: Math.floor(cell / city.width) },
+			heading: stride > 1 && idx < NO_HEADING ? DIRECTIONS[idx] : undefined,
+		};
 	};
 
-	openSet.push(startNode);
+	const size = city.width * city.height * stride;
+	const g = new Float64Array(size).fill(Infinity);
+	const parent = new Int32Array(size).fill(-1);
+	const closed = new Uint8Array(size);
+	const open: HeapEntry[] = [];
+	let seq = 0;
+
+	const startKey = stateKey(start, heading);
+	g[startKey] = 0;
+	heapPush(open, { key: startKey, priority: heuristic(start, end), seq: seq++ });
 
-	while (openSet.length > 0) {
-		openSet.sort((a, b) => a.f - b.f);
-		const current = openSet.shift()!;
+	while (open.length > 0) {
+		const { key } = heapPop(open)!;
+		if (closed[key]) continue;
+		closed[key] = 1;
 
-		if (current.pos.x === end.x && current.pos.y === end.y) {
+		const current = decode(key);
+		if (samePosition(current.pos, end)) {
 			const path: Position[] = [];
-			let node: Node | undefined = current;
-			while (node) {
-				path.unshift({ ...node.pos });
-				node = node.parent;
+			for (let k = key; k !== startKey; k = parent[k]) {
+				path.unshift(decode(k).pos);
 			}
-			return path.slice(1);
+			return path;
 		}
 
-		closedSet.add(posKey(current.pos));
-
-		const neighbors: Position[] = [
-			{ x: current.pos.x, y: current.pos.y - 1 },
-			{ x: current.pos.x, y: current.pos.y + 1 },
-			{ x: current.pos.x - 1, y: current.pos.y },
-			{ x: current.pos.x + 1, y: current.pos.y },
-		];
-
-		for (const neighborPos of neighbors) {
-			if (
-				neighborPos.x < 0 || neighborPos.x >= city.width ||
-				neighborPos.y < 0 || neighborPos.y >= city.height
-			) continue;
-
-			if (city.grid[neighborPos.y][neighborPos.x] !== 'road') continue;
-			if (closedSet.has(posKey(neighborPos))) continue;
-
-			const g = current.g + 1;
-			const h = heuristic(neighborPos, end);
-			const f = g + h;
-
-			const existing = openSet.find(n => n.pos.x === neighborPos.x && n.pos.y === neighborPos.y);
-			if (existing) {
-				if (g < existing.g) {
-					existing.g = g;
-					existing.f = f;
-					existing.parent = current;
-				}
-			} else {
-				openSet.push({
-					pos: neighborPos,
-					g,
-					h,
-					f,
-					parent: current,
-				});
+		for (const dir of DIRECTIONS) {
+			const neighborPos = step(current.pos, dir);
+
+			if (!canMove(city, current.pos, neighborPos)) continue;
+			if (!isTurnAllowed(city, current.pos, current.heading, dir)) continue;
+
+			const neighborKey = stateKey(neighborPos, dir);
+			if (closed[neighborKey]) continue;
+
+			const tentative = g[key] + cost(neighborPos);
+			if (tentative < g[neighborKey]) {
+				g[neighborKey] = tentative;
+				parent[neighborKey] = key;
+				heapPush(open, { key: neighborKey, priority: tentative + heuristic(neighborPos, end), seq: seq++ });
 			}
 		}
 	}
@@ -95,7 +140,134 @@ export function manhattanDistance(a: Position, b: Position): number {
 	return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
 }
 
-export function pathDistance(city: City, start: Position, end: Position): number {
-	const path = findPath(city, start, end);
-	return path.length > 0 ? path.length : Infinity;
+export function pathDistance(
+	city: City,
+	start: Position,
+	end: Position,
+	cost: CellCost = unitCost,
+	heading?: Direction
+): number {
+	const path = findPath(city, start, end, cost, heading);
+	return path.length > 0 ? path.reduce((sum, pos) => sum + cost(pos), 0) : Infinity;
+}
+
+export interface DistanceOracle {
+	distance(from: Position, to: Position, heading?: Direction): number;
+	path(from: Position, to: Position, heading?: Direction): Position[];
+}
+
+/**
+ * Answers shortest travel-cost queries by running one reverse Dijkstra per
+ * target and caching the result, so a dispatch round costs one search per
+ * pickup rather than one A* per taxi–passenger pair. The cache is only valid
+ * for the city layout and cell costs it was built with.
+ */
+export function createDistanceOracle(city: City, cost: CellCost = unitCost): DistanceOracle {
+	const stride = turnsMatter(city) ? 4 : 1;
+	const tables = new Map<number, Float64Array>();
+	// Keep the cache to a few million entries (tens of MB) however large the city is.
+	const maxTargets = Math.max(16, Math.floor(4_000_000 / (city.width * city.height * stride)));
+
+	// dist[state] = cost to reach the target from a cell entered with the given heading.
+	const buildTable = (target: Position): Float64Array => {
+		const dist = new Float64Array(city.width * city.height * stride).fill(Infinity);
+		const open: HeapEntry[] = [];
+		let seq = 0;
+		const targetCell = target.y * city.width + target.x;
+
+		for (let h = 0; h < stride; h++) {
+			dist[targetCell * stride + h] = 0;
+			heapPush(open, { key: targetCell * stride + h, priority: 0, seq: seq++ });
+		}
+
+		while (open.length > 0) {
+			const { key, priority } = heapPop(open)!;
+			if (priority > dist[key]) continue;
+
+			const cell = Math.floor(key / stride);
+			const pos = { x: cell % city.width, y: Math.floor(cell / city.width) };
+			const enteredWith = stride > 1 ? DIRECTIONS[key % stride] : undefined;
+
+			for (const dir of DIRECTIONS) {
+				if (enteredWith && dir !== enteredWith) continue;
+
+				// Predecessor cell that moves into `pos` travelling in `dir`.
+				const prev = step(pos, opposite(dir));
+				if (!isRoadCell(city, prev) || !canMove(city, prev, pos)) continue;
+
+				const candidate = priority + cost(pos);
+				const prevCell = prev.y * city.width + prev.x;
+				for (let h = 0; h < stride; h++) {
+					if (stride > 1 && !isTurnAllowed(city, prev, DIRECTIONS[h], dir)) continue;
+					const prevKey = prevCell * stride + h;
+					if (candidate < dist[prevKey]) {
+						dist[prevKey] = candidate;
+						heapPush(open, { key: prevKey, priority: candidate, seq: seq++ });
+					}
+				}
+			}
+		}
+
+		return dist;
+	};
+
+	const tableFor = (target: Position): Float64Array => {
+		const targetCell = target.y * city.width + target.x;
+		let table = tables.get(targetCell);
+		if (table) {
+			// Refresh insertion order so the least recently used target is evicted first.
+			tables.delete(targetCell);
+		} else {
+			table = buildTable(target);
+			if (tables.size >= maxTargets) {
+				tables.delete(tables.keys().next().value!);
+			}
+		}
+		tables.set(targetCell, table);
+		return table;
+	};
+
+	const remaining = (table: Float64Array, pos: Position, dir: Direction) =>
+		table[(pos.y * city.width + pos.x) * stride + (stride > 1 ? DIRECTIONS.indexOf(dir) : 0)];
+
+	// Cheapest next move from `from` towards the target, or undefined when it is unreachable.
+	const bestMove = (table: Float64Array, from: Position, heading: Direction | undefined) => {
+		let best: { dir: Direction; next: Position; total: number } | undefined;
+		for (const dir of DIRECTIONS) {
+			const next = step(from, dir);
+			if (!canMove(city, from, next) || !isTurnAllowed(city, from, heading, dir)) continue;
+			const total = cost(next) + remaining(table, next, dir);
+			if (total < Infinity && (!best || total < best.total)) {
+				best = { dir, next, total };
+			}
+		}
+		return best;
+	};
+
+	return {
+		distance(from, to, heading) {
+			if (samePosition(from, to)) return 0;
+			return bestMove(tableFor(to), from, heading)?.total ?? Infinity;
+		},
+
+		path(from, to, heading) {
+			if (samePosition(from, to)) return [to];
+
+			const table = tableFor(to);
+			const path: Position[] = [];
+			let current = from;
+			let currentHeading = heading;
+			const maxSteps = city.width * city.height * 4;
+
+			while (!samePosition(current, to) && path.length < maxSteps) {
+				const move = bestMove(table, current, currentHeading);
+				if (!move) return [];
+				path.push(move.next);
+				current = move.next;
+				currentHeading = move.dir;
+			}
+
+			return samePosition(current, to) ? path : [];
+		},
+	};
 }
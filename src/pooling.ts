@@ -0,0 +1,131 @@
+import type { Passenger, SimulationState, SimulationConfig, Stop, Taxi } from './types';
+import { insertPassenger } from './simulation';
+import { manhattanDistance, type DistanceOracle } from './pathfinding';
+import { distanceOracle } from './traffic';
+import { hasRangeFor } from './energy';
+
+const CANDIDATE_TAXIS = 5;
+
+interface Insertion {
+	taxi: Taxi;
+	pickupIndex: number;
+	dropoffIndex: number;
+	cost: number;
+}
+
+function routeCost(oracle: DistanceOracle, taxi: Taxi, stops: Stop[]): number {
+	let cost = 0;
+	let prev = taxi.position;
+	let heading = taxi.heading;
+	for (const stop of stops) {
+		cost += oracle.distance(prev, stop.position, heading);
+		prev = stop.position;
+		heading = undefined;
+	}
+	return cost;
+}
+
+function findPassenger(state: SimulationState, id: string): Passenger | undefined {
+	return state.waitingPassengers.find(p => p.id === id) ?? state.activePassengers.find(p => p.id === id);
+}
+
+function isFeasible(
+	state: SimulationState,
+	taxi: Taxi,
+	stops: Stop[],
+	config: SimulationConfig,
+	oracle: DistanceOracle
+): boolean {
+	const pickupTimes = new Map<string, number>();
+	let load = taxi.onboard;
+	let time = 0;
+	let prev = taxi.position;
+	let heading = taxi.heading;
+
+	for (const stop of stops) {
+		time += oracle.distance(prev, stop.position, heading);
+		prev = stop.position;
+		heading = undefined;
+
+		if (stop.kind === 'pickup') {
+			load++;
+			if (load > taxi.capacity) return false;
+			pickupTimes.set(stop.passengerId, time);
+			continue;
+		}
+
+		load--;
+		const passenger = findPassenger(state, stop.passengerId);
+		if (!passenger?.directDistance) continue;
+
+		// Passengers already on board started their ride before this route plan.
+		const rideStart = pickupTimes.get(stop.passengerId) ?? (passenger.pickedUpTick ?? state.tick) - state.tick;
+		if (time - rideStart > passenger.directDistance * config.maxDetourRatio) return false;
+	}
+
+	return hasRangeFor(state, taxi, time, prev);
+}
+
+function bestInsertion(
+	state: SimulationState,
+	taxi: Taxi,
+	passenger: Passenger,
+	config: SimulationConfig,
+	oracle: DistanceOracle
+): Insertion | null {
+	const baseCost = routeCost(oracle, taxi, taxi.stops);
+	const pickup: Stop = { kind: 'pickup', passengerId: passenger.id, position: passenger.pickup };
+	const dropoff: Stop = { kind: 'dropoff', passengerId: passenger.id, position: passenger.destination };
+	let best: Insertion | null = null;
+
+	for (let i = 0; i <= taxi.stops.length; i++) {
+		for (let j = i; j <= taxi.stops.length; j++) {
+			const stops = [
+				...taxi.stops.slice(0, i),
+				pickup,
+				...taxi.stops.slice(i, j),
+				dropoff,
+				...taxi.stops.slice(j),
+			];
+
+			const cost = routeCost(oracle, taxi, stops) - baseCost;
+			if (cost === Infinity || (best && cost >= best.cost)) continue;
+			if (!isFeasible(state, taxi, stops, config, oracle)) continue;
+
+			best = { taxi, pickupIndex: i, dropoffIndex: j, cost };
+		}
+	}
+
+	return best;
+}
+
+export function assignPooled(state: SimulationState, config: SimulationConfig): void {
+	const oracle = distanceOracle(state);
+	const unassignedPassengers = state.waitingPassengers
+		.filter(p => !p.assignedTaxiId && !p.unreachable).slice(0, config.queueSize);
+
+	for (const passenger of unassignedPassengers) {
+		passenger.directDistance ??= oracle.distance(passenger.pickup, passenger.destination);
+		if (passenger.directDistance === Infinity) {
+			passenger.unreachable = true;
+			continue;
+		}
+
+		const candidates = state.taxis
+			.filter(t => t.onShift && t.state !== 'to_charger' && t.state !== 'charging')
+			.sort((a, b) => manhattanDistance(a.position, passenger.pickup) - manhattanDistance(b.position, passenger.pickup))
+			.slice(0, CANDIDATE_TAXIS);
+
+		let best: Insertion | null = null;
+		for (const taxi of candidates) {
+			const insertion = bestInsertion(state, taxi, passenger, config, oracle);
+			if (insertion && (!best || insertion.cost < best.cost)) {
+				best = insertion;
+			}
+		}
+
+		if (best) {
+			insertPassenger(state, best.taxi, passenger, best.pickupIndex, best.dropoffIndex);
+		}
+	}
+}
@@ -0,0 +1,10 @@
+/** A seeded generator that exposes its internal state, so a run can be saved and resumed mid-stream. */
+export type SeededRandom = (() => number) & { readonly state: number };
+
+export function seededRandom(seed: number): SeededRandom {
+	const random = () => {
+		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+		return seed / 0x7fffffff;
+	};
+	return Object.defineProperty(random, 'state', { get: () => seed }) as SeededRandom;
+}
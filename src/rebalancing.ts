@@ -0,0 +1,149 @@
+import type { Position, SimulationState, SimulationConfig, Taxi } from './types';
+import { manhattanDistance } from './pathfinding';
+import { planRoute } from './simulation';
+
+export interface RepositioningMove {
+	taxiId: string;
+	target: Position;
+}
+
+export interface RepositioningPolicy {
+	id: string;
+	label: string;
+	plan: (state: SimulationState, config: SimulationConfig) => RepositioningMove[];
+}
+
+const policies = new Map<string, RepositioningPolicy>();
+
+export function registerRepositioningPolicy(policy: RepositioningPolicy): void {
+	if (policies.has(policy.id)) {
+		throw new Error(`Repositioning policy "${policy.id}" is already registered`);
+	}
+	policies.set(policy.id, policy);
+}
+
+export function getRepositioningPolicy(id: string): RepositioningPolicy {
+	const policy = policies.get(id);
+	if (!policy) {
+		throw new Error(`Unknown repositioning policy "${id}"`);
+	}
+	return policy;
+}
+
+export function listRepositioningPolicies(): RepositioningPolicy[] {
+	return [...policies.values()];
+}
+
+export function applyRepositioning(state: SimulationState, policyId: string, config: SimulationConfig): void {
+	const moves = getRepositioningPolicy(policyId).plan(state, config);
+
+	for (const { taxiId, target } of moves) {
+		const taxi = state.taxis.find(t => t.id === taxiId);
+		if (!taxi || !taxi.onShift || taxi.state !== 'idle') continue;
+
+		const path = planRoute(state, taxi, target);
+		if (path.length === 0 || (target.x === taxi.position.x && target.y === taxi.position.y)) continue;
+
+		taxi.state = 'repositioning';
+		taxi.targetPosition = target;
+		taxi.path = path;
+	}
+}
+
+const ZONE_SIZE = 8;
+
+interface DemandZone {
+	key: string;
+	weight: number;
+	hotspot: Position;
+}
+
+function zoneKey(pos: Position): string {
+	return `${Math.floor(pos.x / ZONE_SIZE)},${Math.floor(pos.y / ZONE_SIZE)}`;
+}
+
+function recentDemandZones(state: SimulationState, window: number): DemandZone[] {
+	const since = state.tick - window;
+	const spots = new Map<string, { pos: Position; count: number }>();
+
+	for (const list of [state.waitingPassengers, state.activePassengers, state.completedPassengers, state.abandonedPassengers]) {
+		for (const p of list) {
+			if (p.spawnTick < since) continue;
+			const key = `${p.pickup.x},${p.pickup.y}`;
+			const spot = spots.get(key) ?? { pos: p.pickup, count: 0 };
+			spot.count++;
+			spots.set(key, spot);
+		}
+	}
+
+	const zones = new Map<string, DemandZone & { hotspotCount: number }>();
+	for (const { pos, count } of spots.values()) {
+		const key = zoneKey(pos);
+		const zone = zones.get(key) ?? { key, weight: 0, hotspot: pos, hotspotCount: 0 };
+		zone.weight += count;
+		if (count > zone.hotspotCount) {
+			zone.hotspot = pos;
+			zone.hotspotCount = count;
+		}
+		zones.set(key, zone);
+	}
+
+	return [...zones.values()].sort((a, b) => b.weight - a.weight);
+}
+
+// Spreads the available fleet over pickup-spot zones in proportion to the
+// demand seen in the last `rebalanceWindow` ticks, moving idle taxis out of
+// oversupplied zones towards each undersupplied zone's busiest spot.
+function planDemandClusters(state: SimulationState, config: SimulationConfig): RepositioningMove[] {
+	const zones = recentDemandZones(state, config.rebalanceWindow);
+	const totalDemand = zones.reduce((sum, z) => sum + z.weight, 0);
+	const available = state.taxis.filter(t => t.onShift && (t.state === 'idle' || t.state === 'repositioning'));
+	if (totalDemand === 0 || available.length === 0) return [];
+
+	const supply = new Map<string, number>();
+	for (const taxi of available) {
+		const key = zoneKey(taxi.targetPosition ?? taxi.position);
+		supply.set(key, (supply.get(key) ?? 0) + 1);
+	}
+
+	const desired = new Map(zones.map(z => [z.key, Math.round(z.weight / totalDemand * available.length)]));
+	const surplus = (key: string) => (supply.get(key) ?? 0) - (desired.get(key) ?? 0);
+
+	const movable: Taxi[] = available.filter(t => t.state === 'idle' && surplus(zoneKey(t.position)) > 0);
+	const moves: RepositioningMove[] = [];
+
+	for (const zone of zones) {
+		while (surplus(zone.key) < 0 && movable.length > 0) {
+			let bestIdx = -1;
+			let bestDistance = Infinity;
+			movable.forEach((taxi, idx) => {
+				const distance = manhattanDistance(taxi.position, zone.hotspot);
+				if (surplus(zoneKey(taxi.position)) > 0 && distance < bestDistance) {
+					bestDistance = distance;
+					bestIdx = idx;
+				}
+			});
+			if (bestIdx < 0) break;
+
+			const [taxi] = movable.splice(bestIdx, 1);
+			const from = zoneKey(taxi.position);
+			supply.set(from, (supply.get(from) ?? 0) - 1);
+			supply.set(zone.key, (supply.get(zone.key) ?? 0) + 1);
+			moves.push({ taxiId: taxi.id, target: zone.hotspot });
+		}
+	}
+
+	return moves;
+}
+
+registerRepositioningPolicy({
+	id: 'none',
+	label: 'No rebalancing',
+	plan: () => [],
+});
+
+registerRepositioningPolicy({
+	id: 'demand',
+	label: 'Recent demand clusters',
+	plan: planDemandClusters,
+});
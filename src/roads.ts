@@ -0,0 +1,128 @@
+import type { City, Direction, Position } from './types';
+
+export const DIRECTIONS: Direction[] = ['north', 'south', 'west', 'east'];
+
+const VECTORS: Record<Direction, Position> = {
+	north: { x: 0, y: -1 },
+	south: { x: 0, y: 1 },
+	west: { x: -1, y: 0 },
+	east: { x: 1, y: 0 },
+};
+
+const OPPOSITE: Record<Direction, Direction> = {
+	north: 'south',
+	south: 'north',
+	west: 'east',
+	east: 'west',
+};
+
+const LEFT_OF: Record<Direction, Direction> = {
+	north: 'west',
+	west: 'south',
+	south: 'east',
+	east: 'north',
+};
+
+export function step(pos: Position, dir: Direction): Position {
+	return { x: pos.x + VECTORS[dir].x, y: pos.y + VECTORS[dir].y };
+}
+
+export function opposite(dir: Direction): Direction {
+	return OPPOSITE[dir];
+}
+
+export function directionBetween(from: Position, to: Position): Direction | undefined {
+	return DIRECTIONS.find(dir => from.x + VECTORS[dir].x === to.x && from.y + VECTORS[dir].y === to.y);
+}
+
+export function isRoadCell(city: City, pos: Position): boolean {
+	return pos.x >= 0 && pos.x < city.width && pos.y >= 0 && pos.y < city.height &&
+		city.grid[pos.y][pos.x] === 'road';
+}
+
+export function hasRoads(city: City): boolean {
+	return city.grid.some(row => row.includes('road'));
+}
+
+export function nearestRoadCell(city: City, pos: Position): Position | undefined {
+	const cx = Math.min(Math.max(Math.round(pos.x), 0), city.width - 1);
+	const cy = Math.min(Math.max(Math.round(pos.y), 0), city.height - 1);
+	const isRoad = (x: number, y: number) => isRoadCell(city, { x, y });
+
+	// Walk outwards in Manhattan rings, scanning each ring top to bottom so ties resolve the same way every time.
+	for (let d = 0; d < city.width + city.height; d++) {
+		for (let dy = -d; dy <= d; dy++) {
+			const dx = d - Math.abs(dy);
+			if (isRoad(cx - dx, cy + dy)) return { x: cx - dx, y: cy + dy };
+			if (dx > 0 && isRoad(cx + dx, cy + dy)) return { x: cx + dx, y: cy + dy };
+		}
+	}
+	return undefined;
+}
+
+export interface RoadComponents {
+	/** Component id per cell (`y * width + x`), -1 off the road network. */
+	labels: Int32Array;
+	sizes: number[];
+	/** Id of the largest component; every other one is cut off from it. */
+	main: number;
+}
+
+/** Groups road cells that touch, ignoring one-way restrictions. */
+export function roadComponents(city: City): RoadComponents {
+	const labels = new Int32Array(city.width * city.height).fill(-1);
+	const sizes: number[] = [];
+
+	for (let y = 0; y < city.height; y++) {
+		for (let x = 0; x < city.width; x++) {
+			if (city.grid[y][x] !== 'road' || labels[y * city.width + x] >= 0) continue;
+
+			const id = sizes.length;
+			const stack: Position[] = [{ x, y }];
+			labels[y * city.width + x] = id;
+			let size = 0;
+			while (stack.length > 0) {
+				const cell = stack.pop()!;
+				size++;
+				for (const dir of DIRECTIONS) {
+					const next = step(cell, dir);
+					if (!isRoadCell(city, next) || labels[next.y * city.width + next.x] >= 0) continue;
+					labels[next.y * city.width + next.x] = id;
+					stack.push(next);
+				}
+			}
+			sizes.push(size);
+		}
+	}
+
+	const main = sizes.reduce((best, size, id) => (size > (sizes[best] ?? 0) ? id : best), 0);
+	return { labels, sizes, main };
+}
+
+export function roadDegree(city: City, pos: Position): number {
+	return DIRECTIONS.filter(dir => isRoadCell(city, step(pos, dir))).length;
+}
+
+/** Whether a vehicle may drive from `from` into the adjacent cell `to`, honouring one-way cells at both ends. */
+export function canMove(city: City, from: Position, to: Position): boolean {
+	if (!isRoadCell(city, to)) return false;
+	const dir = directionBetween(from, to);
+	if (!dir) return false;
+
+	const fromOneWay = city.oneWay[from.y]?.[from.x];
+	const toOneWay = city.oneWay[to.y][to.x];
+	return (!fromOneWay || fromOneWay === dir) && (!toOneWay || toOneWay === dir);
+}
+
+/** Whether a vehicle arriving at `at` while heading `heading` may leave it towards `dir`. */
+export function isTurnAllowed(city: City, at: Position, heading: Direction | undefined, dir: Direction): boolean {
+	if (!heading) return true;
+
+	const { noUTurn, noLeftTurn } = city.turnRules;
+	if (!noUTurn && !noLeftTurn) return true;
+
+	const degree = roadDegree(city, at);
+	if (noUTurn && dir === OPPOSITE[heading] && degree > 1) return false;
+	if (noLeftTurn && dir === LEFT_OF[heading] && degree >= 3) return false;
+	return true;
+}
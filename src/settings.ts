@@ -0,0 +1,208 @@
+import type { SimulationConfig } from './types';
+import { listLayouts } from './layouts';
+import { DEFAULT_CONFIG, DEFAULT_SEED } from './config';
+
+export type SettingKey = keyof SimulationConfig | 'seed';
+
+/** Every setting as the text a form field or query parameter holds. */
+export type SettingValues = Record<SettingKey, string>;
+
+export type SettingErrors = Partial<Record<SettingKey, string>>;
+
+interface Choice {
+	value: string;
+	label: string;
+}
+
+export type SettingField = { label: string; group: string } & (
+	| { kind: 'integer' | 'number'; min?: number; max?: number; step?: number }
+	| { kind: 'boolean' }
+	| { kind: 'choice'; choices: () => Choice[] }
+	/** Edited as JSON; `check` returns an error message for a value of the wrong shape. */
+	| { kind: 'json'; check: (value: unknown, config: SimulationConfig) => string | null }
+);
+
+const isInteger = (value: unknown, min: number): value is number =>
+	typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+function checkShifts(value: unknown, config: SimulationConfig): string | null {
+	if (!Array.isArray(value)) return 'Must be a list of shift blocks';
+	for (const block of value) {
+		if (typeof block !== 'object' || block === null) return 'Each block needs taxis, start and end';
+		const { taxis, start, end } = block as Record<string, unknown>;
+		if (!isInteger(taxis, 0)) return 'Shift taxis must be a whole number';
+		if (!isInteger(start, 0) || !isInteger(end, 0) || start >= config.ticksPerDay || end > config.ticksPerDay) {
+			return `Shift start and end must be ticks of the day (0–${config.ticksPerDay})`;
+		}
+		if (end <= start) return 'Shift end must come after its start';
+	}
+	return null;
+}
+
+function checkIncidents(value: unknown, config: SimulationConfig): string | null {
+	if (!Array.isArray(value)) return 'Must be a list of incidents';
+	for (const incident of value) {
+		if (typeof incident !== 'object' || incident === null) return 'Each incident needs cells and a start';
+		const { cells, start, duration } = incident as Record<string, unknown>;
+		if (!isInteger(start, 1)) return 'Incident start must be a tick of at least 1';
+		if (duration !== undefined && !isInteger(duration, 1)) return 'Incident duration must be at least 1 tick';
+		if (!Array.isArray(cells)) return 'Incident cells must be a list of {x, y}';
+		for (const cell of cells) {
+			const { x, y } = (cell ?? {}) as Record<string, unknown>;
+			if (!isInteger(x, 0) || !isInteger(y, 0) || x >= config.cityWidth || y >= config.cityHeight) {
+				return `Incident cells must lie inside the ${config.cityWidth}×${config.cityHeight} city`;
+			}
+		}
+	}
+	return null;
+}
+
+const PATIENCE_CHOICES: Choice[] = ['infinite', 'fixed', 'uniform', 'normal', 'exponential'].map(value => ({ value, label: value }));
+
+export const SETTING_FIELDS: Record<SettingKey, SettingField> = {
+	seed: { label: 'Seed', group: 'City', kind: 'integer', min: 0 },
+	cityLayout: { label: 'Layout', group: 'City', kind: 'choice', choices: () => listLayouts().map(l => ({ value: l.id, label: l.label })) },
+	cityWidth: { label: 'Width', group: 'City', kind: 'integer', min: 8, max: 200 },
+	cityHeight: { label: 'Height', group: 'City', kind: 'integer', min: 8, max: 200 },
+	numChargingStations: { label: 'Chargers', group: 'City', kind: 'integer', min: 0 },
+	oneWayFraction: { label: 'One-way share', group: 'Roads', kind: 'number', min: 0, max: 1, step: 0.05 },
+	noUTurn: { label: 'No U-turns', group: 'Roads', kind: 'boolean' },
+	noLeftTurn: { label: 'No left turns', group: 'Roads', kind: 'boolean' },
+	congestionFactor: { label: 'Congestion', group: 'Roads', kind: 'number', min: 0, step: 0.1 },
+	backgroundTraffic: { label: 'Background traffic', group: 'Roads', kind: 'number', min: 0, step: 0.1 },
+	backgroundTrafficPeriod: { label: 'Traffic period', group: 'Roads', kind: 'integer', min: 1 },
+	incidents: { label: 'Incidents', group: 'Roads', kind: 'json', check: checkIncidents },
+	numTaxis: { label: 'Taxis', group: 'Fleet', kind: 'integer', min: 0 },
+	taxiCapacity: { label: 'Capacity', group: 'Fleet', kind: 'integer', min: 1 },
+	batteryRange: { label: 'Battery range', group: 'Fleet', kind: 'integer', min: 0 },
+	chargeRate: { label: 'Charge rate', group: 'Fleet', kind: 'number', min: 0.1, step: 0.5 },
+	lowBatteryThreshold: { label: 'Low battery', group: 'Fleet', kind: 'number', min: 0, max: 1, step: 0.05 },
+	shifts: { label: 'Shifts', group: 'Fleet', kind: 'json', check: checkShifts },
+	shiftEndBehavior: {
+		label: 'After shift',
+		group: 'Fleet',
+		kind: 'choice',
+		choices: () => [{ value: 'depot', label: 'Return to depot' }, { value: 'offline', label: 'Park in place' }],
+	},
+	ticksPerDay: { label: 'Ticks per day', group: 'Demand', kind: 'integer', min: 24 },
+	startHour: { label: 'Start hour', group: 'Demand', kind: 'number', min: 0, max: 23.99 },
+	passengerSpawnChance: { label: 'Spawn chance', group: 'Demand', kind: 'number', min: 0, max: 1, step: 0.05 },
+	ticksPerSpawnCheck: { label: 'Ticks per spawn', group: 'Demand', kind: 'integer', min: 1 },
+	burstChance: { label: 'Burst chance', group: 'Demand', kind: 'number', min: 0, max: 1, step: 0.05 },
+	burstMinSize: { label: 'Burst min', group: 'Demand', kind: 'integer', min: 1 },
+	burstMaxSize: { label: 'Burst max', group: 'Demand', kind: 'integer', min: 1 },
+	patienceDistribution: { label: 'Patience', group: 'Demand', kind: 'choice', choices: () => PATIENCE_CHOICES },
+	patienceMean: { label: 'Patience mean', group: 'Demand', kind: 'number', min: 1 },
+	patienceSpread: { label: 'Patience spread', group: 'Demand', kind: 'number', min: 0 },
+	queueSize: { label: 'Queue size', group: 'Dispatch', kind: 'integer', min: 1 },
+	maxDetourRatio: { label: 'Max detour', group: 'Dispatch', kind: 'number', min: 1, step: 0.1 },
+	rebalanceWindow: { label: 'Rebalance window', group: 'Dispatch', kind: 'integer', min: 1 },
+	reassignThreshold: { label: 'Reassign gain', group: 'Dispatch', kind: 'number', min: 0 },
+	baseFare: { label: 'Base fare', group: 'Fares', kind: 'number', min: 0, step: 0.5 },
+	farePerCell: { label: 'Per cell', group: 'Fares', kind: 'number', min: 0, step: 0.1 },
+	fareWaitingRate: { label: 'Waiting rate', group: 'Fares', kind: 'number', min: 0, step: 0.1 },
+	deadheadCostPerCell: { label: 'Deadhead cost', group: 'Fares', kind: 'number', min: 0, step: 0.1 },
+};
+
+const SETTING_KEYS = Object.keys(SETTING_FIELDS) as SettingKey[];
+
+export function formatSettings(config: SimulationConfig, seed: number): SettingValues {
+	const values = {} as SettingValues;
+	for (const key of SETTING_KEYS) {
+		const value = key === 'seed' ? seed : config[key];
+		values[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+	}
+	return values;
+}
+
+function parseField(field: SettingField, text: string, config: SimulationConfig): { value?: unknown; error?: string } {
+	switch (field.kind) {
+		case 'integer':
+		case 'number': {
+			const value = Number(text);
+			if (text.trim() === '' || !Number.isFinite(value)) return { error: 'Must be a number' };
+			if (field.kind === 'integer' && !Number.isInteger(value)) return { error: 'Must be a whole number' };
+			if (field.min !== undefined && value < field.min) return { error: `Must be at least ${field.min}` };
+			if (field.max !== undefined && value > field.max) return { error: `Must be at most ${field.max}` };
+			return { value };
+		}
+		case 'boolean':
+			return text === 'true' || text === 'false' ? { value: text === 'true' } : { error: 'Must be true or false' };
+		case 'choice':
+			return field.choices().some(c => c.value === text) ? { value: text } : { error: `Unknown option "${text}"` };
+		case 'json': {
+			let value: unknown;
+			try {
+				value = JSON.parse(text);
+			} catch {
+				return { error: 'Not valid JSON' };
+			}
+			const error = field.check(value, config);
+			return error ? { error } : { value };
+		}
+	}
+}
+
+/**
+ * Reads settings from text, with missing ones at their defaults. Invalid ones
+ * are reported and left at their defaults in the returned config, so it is
+ * always safe to run.
+ */
+export function parseSettings(values: Partial<SettingValues>): { config: SimulationConfig; seed: number; errors: SettingErrors } {
+	const config = { ...DEFAULT_CONFIG } as Record<keyof SimulationConfig, unknown>;
+	let seed = DEFAULT_SEED;
+	const errors: SettingErrors = {};
+
+	// Lists are checked last, against the city size and day length they have to fit.
+	const ordered = [...SETTING_KEYS].sort((a, b) => Number(SETTING_FIELDS[a].kind === 'json') - Number(SETTING_FIELDS[b].kind === 'json'));
+	for (const key of ordered) {
+		const text = values[key];
+		if (text === undefined) continue;
+
+		const { value, error } = parseField(SETTING_FIELDS[key], text, config as SimulationConfig);
+		if (error) {
+			errors[key] = error;
+		} else if (key === 'seed') {
+			seed = value as number;
+		} else {
+			config[key] = value;
+		}
+	}
+
+	// Values that fail a check across fields fall back to their defaults as well.
+	const parsed = config as SimulationConfig;
+	if (!errors.burstMaxSize && parsed.burstMaxSize < parsed.burstMinSize) {
+		errors.burstMaxSize = 'Must be at least the burst minimum';
+		parsed.burstMinSize = DEFAULT_CONFIG.burstMinSize;
+		parsed.burstMaxSize = DEFAULT_CONFIG.burstMaxSize;
+	}
+	if (!errors.numTaxis && parsed.numTaxis + parsed.shifts.reduce((sum, block) => sum + block.taxis, 0) < 1) {
+		errors.numTaxis = 'The fleet needs at least one taxi, here or on a shift';
+		parsed.numTaxis = DEFAULT_CONFIG.numTaxis;
+	}
+
+	return { config: parsed, seed, errors };
+}
+
+/** Query string holding only the settings that differ from the defaults, so links stay short. */
+export function settingsToQuery(config: SimulationConfig, seed: number): string {
+	const values = formatSettings(config, seed);
+	const defaults = formatSettings(DEFAULT_CONFIG, DEFAULT_SEED);
+	const params = new URLSearchParams();
+	for (const key of SETTING_KEYS) {
+		if (values[key] !== defaults[key]) {
+			params.set(key, values[key]);
+		}
+	}
+	return params.toString();
+}
+
+export function settingsFromQuery(search: string): { config: SimulationConfig; seed: number; errors: SettingErrors } {
+	const params = new URLSearchParams(search);
+	const values: Partial<SettingValues> = {};
+	for (const key of SETTING_KEYS) {
+		const value = params.get(key);
+		if (value !== null) values[key] = value;
+	}
+	return parseSettings(values);
+}
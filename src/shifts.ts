@@ -0,0 +1,75 @@
+import type { Position, ShiftWindow, SimulationConfig, SimulationState, Taxi } from './types';
+import { nearestRoadCell } from './roads';
+import { planRoute, routeTaxi } from './simulation';
+
+export function isShiftActive(shift: ShiftWindow | undefined, tick: number, ticksPerDay: number): boolean {
+	if (!shift) return true;
+	const t = tick % ticksPerDay;
+	return shift.start <= shift.end
+		? t >= shift.start && t < shift.end
+		: t >= shift.start || t < shift.end;
+}
+
+/** Off-shift taxis park at the road cell nearest the city centre. */
+export function depotPosition(state: SimulationState): Position | undefined {
+	const { city } = state;
+	return nearestRoadCell(city, { x: (city.width - 1) / 2, y: (city.height - 1) / 2 });
+}
+
+// Hand back every passenger the taxi has not picked up yet; dropoffs for
+// passengers already on board stay so nobody is left mid-trip.
+function releasePendingPickups(state: SimulationState, taxi: Taxi): void {
+	const pending = new Set(taxi.stops.filter(s => s.kind === 'pickup').map(s => s.passengerId));
+	if (pending.size === 0) return;
+
+	for (const passenger of state.waitingPassengers) {
+		if (pending.has(passenger.id)) {
+			passenger.assignedTaxiId = undefined;
+		}
+	}
+
+	const nextStop = taxi.stops[0];
+	taxi.stops = taxi.stops.filter(s => !pending.has(s.passengerId));
+	if (taxi.stops[0] !== nextStop) {
+		routeTaxi(state, taxi);
+	}
+}
+
+function goOffDuty(state: SimulationState, taxi: Taxi, config: SimulationConfig): void {
+	const depot = config.shiftEndBehavior === 'depot' ? depotPosition(state) : undefined;
+	const path = depot ? planRoute(state, taxi, depot) : [];
+
+	taxi.moveProgress = 0;
+	taxi.path = path;
+	taxi.targetPosition = path.length > 0 ? depot : undefined;
+	taxi.state = path.length > 0 ? 'to_depot' : 'offline';
+}
+
+/** Logs shift taxis on and off for the current tick, and returns whether any did. */
+export function applyShifts(state: SimulationState, config: SimulationConfig): boolean {
+	let changed = false;
+	for (const taxi of state.taxis) {
+		const active = isShiftActive(taxi.shift, state.tick, config.ticksPerDay);
+
+		if (active && !taxi.onShift) {
+			changed = true;
+			taxi.onShift = true;
+			if (taxi.state === 'offline' || taxi.state === 'to_depot') {
+				taxi.state = 'idle';
+				taxi.path = [];
+				taxi.targetPosition = undefined;
+				taxi.moveProgress = 0;
+			}
+		} else if (!active && taxi.onShift) {
+			changed = true;
+			taxi.onShift = false;
+			releasePendingPickups(state, taxi);
+		}
+
+		// Once the last passenger is out (and any charge has finished) the taxi heads home.
+		if (!taxi.onShift && taxi.stops.length === 0 && (taxi.state === 'idle' || taxi.state === 'repositioning')) {
+			goOffDuty(state, taxi, config);
+		}
+	}
+	return changed;
+}
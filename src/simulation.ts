@@ -1,16 +1,19 @@
-import type { City, Passenger, Taxi, SimulationState, SimulationConfig, Position, Metrics } from './types';
-import { generateCity, getRandomPickupSpot, getRandomDifferentPickupSpot } from './cityGenerator';
-import { findPath, pathDistance } from './pathfinding';
-
-function seededRandom(seed: number): () => number {
-	return () => {
-		seed = (seed * 1103515245 + 12345) & 0x7fffffff;
-		return seed / 0x7fffffff;
-	};
-}
-
-export function createSimulation(config: SimulationConfig, seed: number = 42): SimulationState {
-	const city = generateCity(config.cityWidth, config.cityHeight, seed);
+import type { City, Passenger, Taxi, SimulationState, SimulationConfig, Position, Metrics, ShiftWindow } from './types';
+import { getLayout } from './layouts';
+import { directionBetween } from './roads';
+import { distanceOracle, travelCost } from './traffic';
+import { findPath } from './pathfinding';
+import { hasRangeFor, nearestCharger, needsCharge } from './energy';
+import { seededRandom } from './random';
+import { debugLog } from './debug';
+
+/** Starts a run on `city` if given, otherwise on a city generated from the seed. */
+export function createSimulation(config: SimulationConfig, seed: number = 42, city?: City): SimulationState {
+	city ??= getLayout(config.cityLayout).generate(config.cityWidth, config.cityHeight, seed, {
+		oneWayFraction: config.oneWayFraction,
+		turnRules: { noUTurn: config.noUTurn, noLeftTurn: config.noLeftTurn },
+		chargingStations: config.numChargingStations,
+	});
 	const random = seededRandom(seed + 1000);
 
 	const taxis: Taxi[] = [];
@@ -24,16 +27,42 @@ export function createSimulation(config: SimulationConfig, seed: number = 42): S
 		}
 	}
 
-	for (let i = 0; i < config.numTaxis; i++) {
+	if (roadCells.length === 0) {
+		throw new Error('City has no roads');
+	}
+
+	const addTaxi = (shift?: ShiftWindow) => {
 		const idx = Math.floor(random() * roadCells.length);
 		taxis.push({
-			id: `taxi-${i}`,
+			id: `taxi-${taxis.length}`,
 			position: { ...roadCells[idx] },
 			path: [],
-			state: 'idle',
+			capacity: config.taxiCapacity,
+			stops: [],
+			onboard: 0,
+			// Shift taxis start parked and log on with their first shift.
+			state: shift ? 'offline' : 'idle',
 			totalDeliveries: 0,
 			totalDistance: 0,
+			passengerDistance: 0,
+			moveProgress: 0,
+			battery: config.batteryRange,
+			batteryCapacity: config.batteryRange,
+			chargingTicks: 0,
+			...(shift ? { shift: { start: shift.start, end: shift.end } } : {}),
+			onShift: !shift,
+			revenue: 0,
+			deadheadDistance: 0,
 		});
+	};
+
+	for (let i = 0; i < config.numTaxis; i++) {
+		addTaxi();
+	}
+	for (const block of config.shifts) {
+		for (let i = 0; i < block.taxis; i++) {
+			addTaxi(block);
+		}
 	}
 
 	return {
@@ -42,11 +71,44 @@ export function createSimulation(config: SimulationConfig, seed: number = 42): S
 		waitingPassengers: [],
 		activePassengers: [],
 		completedPassengers: [],
+		abandonedPassengers: [],
 		tick: 0,
+		reassignments: 0,
+		traffic: {
+			congestionFactor: config.congestionFactor,
+			backgroundTraffic: config.backgroundTraffic,
+			backgroundTrafficPeriod: config.backgroundTrafficPeriod,
+		},
+		energy: {
+			chargeRate: config.chargeRate,
+			lowBatteryThreshold: config.lowBatteryThreshold,
+		},
+		fares: {
+			baseFare: config.baseFare,
+			perCellRate: config.farePerCell,
+			waitingRate: config.fareWaitingRate,
+			deadheadCostPerCell: config.deadheadCostPerCell,
+		},
 	};
 }
 
+/** An independent copy of `state`, e.g. to start several lanes from one setup. */
 export function cloneSimulationState(state: SimulationState): SimulationState {
+	return {
+		...nextSimulationState(state),
+		// Closed requests never change again, so clones can share them.
+		completedPassengers: [...state.completedPassengers],
+		abandonedPassengers: [...state.abandonedPassengers],
+	};
+}
+
+/**
+ * A copy of `state` to carry the same run on from. Delivered and abandoned
+ * passengers are only ever appended to, so the copy extends the lists of
+ * `state` in place; whoever keeps `state` records how long they were (see
+ * `TimelineFrame`).
+ */
+export function nextSimulationState(state: SimulationState): SimulationState {
 	return {
 		city: state.city,
 		taxis: state.taxis.map(t => ({
@@ -54,32 +116,85 @@ export function cloneSimulationState(state: SimulationState): SimulationState {
 			position: { ...t.position },
 			targetPosition: t.targetPosition ? { ...t.targetPosition } : undefined,
 			path: t.path.map(p => ({ ...p })),
-			currentPassenger: t.currentPassenger ? { ...t.currentPassenger } : undefined,
+			stops: t.stops.map(stop => ({ ...stop, position: { ...stop.position } })),
 		})),
 		waitingPassengers: state.waitingPassengers.map(p => ({ ...p })),
 		activePassengers: state.activePassengers.map(p => ({ ...p })),
-		completedPassengers: state.completedPassengers.map(p => ({ ...p })),
+		completedPassengers: state.completedPassengers,
+		abandonedPassengers: state.abandonedPassengers,
 		tick: state.tick,
+		reassignments: state.reassignments,
+		traffic: state.traffic,
+		energy: state.energy,
+		fares: state.fares,
 	};
 }
 
-let passengerIdCounter = 0;
+function samePosition(a: Position, b: Position): boolean {
+	return a.x === b.x && a.y === b.y;
+}
 
-export function spawnPassengers(city: City, tick: number, random: () => number): Passenger {
-	const pickup = getRandomPickupSpot(city, random);
-	const destination = getRandomDifferentPickupSpot(city, pickup, random);
+export function isAvailable(taxi: Taxi): boolean {
+	return taxi.onShift && taxi.stops.length === 0 && taxi.state !== 'to_charger' && taxi.state !== 'charging';
+}
 
-	return {
-		id: `passenger-${passengerIdCounter++}`,
-		pickup,
-		destination,
-		spawnTick: tick,
-	};
+/** Whether the taxi has the range to drive to the passenger, deliver them and still reach a charger. */
+export function canServe(state: SimulationState, taxi: Taxi, passenger: Passenger, toPickup: number): boolean {
+	const trip = distanceOracle(state).distance(passenger.pickup, passenger.destination);
+	return hasRangeFor(state, taxi, toPickup + trip, passenger.destination);
+}
+
+export function routeTaxi(state: SimulationState, taxi: Taxi): void {
+	const next = taxi.stops[0];
+	if (!next) {
+		taxi.state = 'idle';
+		taxi.targetPosition = undefined;
+		taxi.path = [];
+		taxi.moveProgress = 0;
+		return;
+	}
+
+	taxi.state = next.kind === 'pickup' ? 'picking_up' : 'delivering';
+	taxi.targetPosition = next.position;
+	taxi.path = planRoute(state, taxi, next.position);
+}
+
+export function planRoute(state: SimulationState, taxi: Taxi, target: Position): Position[] {
+	// The oracle leaves out congestion, so congested routes are searched on this tick's travel times.
+	const route = (heading?: Taxi['heading']) => state.traffic.congestionFactor > 0
+		? findPath(state.city, taxi.position, target, travelCost(state), heading)
+		: distanceOracle(state).path(taxi.position, target, heading);
+	const path = route(taxi.heading);
+	// A turn restriction can trap a taxi facing the wrong way; let it turn rather than strand it.
+	return path.length > 0 || !taxi.heading ? path : route();
+}
+
+export function insertPassenger(
+	state: SimulationState,
+	taxi: Taxi,
+	passenger: Passenger,
+	pickupIndex: number,
+	dropoffIndex: number
+): void {
+	const previousTarget = taxi.stops[0];
+
+	passenger.assignedTaxiId = taxi.id;
+	taxi.stops.splice(pickupIndex, 0, { kind: 'pickup', passengerId: passenger.id, position: passenger.pickup });
+	taxi.stops.splice(dropoffIndex + 1, 0, { kind: 'dropoff', passengerId: passenger.id, position: passenger.destination });
+
+	if (taxi.stops[0] !== previousTarget) {
+		routeTaxi(state, taxi);
+	}
+}
+
+export function assignPassenger(state: SimulationState, taxi: Taxi, passenger: Passenger): void {
+	insertPassenger(state, taxi, passenger, taxi.stops.length, taxi.stops.length);
 }
 
 export function assignGreedy(state: SimulationState): void {
-	const idleTaxis = state.taxis.filter(t => t.state === 'idle');
-	const unassignedPassengers = state.waitingPassengers.filter(p => !p.assignedTaxiId);
+	const idleTaxis = state.taxis.filter(isAvailable);
+	const unassignedPassengers = state.waitingPassengers.filter(p => !p.assignedTaxiId && !p.unreachable);
+	const oracle = distanceOracle(state);
 
 	let totalDistance = 0;
 	let assignmentCount = 0;
@@ -91,32 +206,26 @@ export function assignGreedy(state: SimulationState): void {
 		let closestDistance = Infinity;
 
 		for (const taxi of idleTaxis) {
-			const distance = pathDistance(state.city, taxi.position, passenger.pickup);
-			if (distance < closestDistance) {
+			const distance = oracle.distance(taxi.position, passenger.pickup, taxi.heading);
+			if (distance < closestDistance && canServe(state, taxi, passenger, distance)) {
 				closestDistance = distance;
 				closestTaxi = taxi;
 			}
 		}
 
 		if (closestTaxi && closestDistance !== Infinity) {
-			passenger.assignedTaxiId = closestTaxi.id;
-			closestTaxi.state = 'picking_up';
-			closestTaxi.currentPassenger = passenger;
-			closestTaxi.targetPosition = passenger.pickup;
-			closestTaxi.path = findPath(state.city, closestTaxi.position, passenger.pickup);
+			assignPassenger(state, closestTaxi, passenger);
 
 			totalDistance += closestDistance;
 			assignmentCount++;
 
 			const idx = idleTaxis.indexOf(closestTaxi);
 			idleTaxis.splice(idx, 1);
-		} else if (closestDistance === Infinity) {
-			console.warn(`[GREEDY] No path found to passenger at (${passenger.pickup.x}, ${passenger.pickup.y})`);
 		}
 	}
 
 	if (assignmentCount > 0) {
-		console.log(`[GREEDY] Assigned ${assignmentCount} taxis, total distance: ${totalDistance}, avg: ${(totalDistance / assignmentCount).toFixed(2)}`);
+		debugLog(`[GREEDY] Assigned ${assignmentCount} taxis, total distance: ${totalDistance}, avg: ${(totalDistance / assignmentCount).toFixed(2)}`);
 	}
 }
 
@@ -136,20 +245,16 @@ export function assignOptimized(
 		const taxi = state.taxis.find(t => t.id === taxiId);
 		const passenger = state.waitingPassengers.find(p => p.id === passengerId);
 
-		if (taxi && passenger && taxi.state === 'idle' && !passenger.assignedTaxiId) {
-			passenger.assignedTaxiId = taxi.id;
-			taxi.state = 'picking_up';
-			taxi.currentPassenger = passenger;
-			taxi.targetPosition = passenger.pickup;
-			taxi.path = findPath(state.city, taxi.position, passenger.pickup);
+		if (taxi && passenger && isAvailable(taxi) && !passenger.assignedTaxiId) {
+			assignPassenger(state, taxi, passenger);
 		}
 	}
 }
 
 export function defaultOptimizer(state: SimulationState, queueSize: number): Array<{ taxiId: string; passengerId: string }> {
-	const idleTaxis = state.taxis.filter(t => t.state === 'idle');
+	const idleTaxis = state.taxis.filter(isAvailable);
 	const unassignedPassengers = state.waitingPassengers
-		.filter(p => !p.assignedTaxiId).slice(0, queueSize)
+		.filter(p => !p.assignedTaxiId && !p.unreachable).slice(0, queueSize)
 
 	if (idleTaxis.length === 0 || unassignedPassengers.length === 0) {
 		return [];
@@ -160,12 +265,14 @@ export function defaultOptimizer(state: SimulationState, queueSize: number): Arr
 	const n = Math.max(numTaxis, numPassengers);
 	const MAX_COST = state.city.width * state.city.height * 2;
 	const costMatrix: number[][] = [];
+	const oracle = distanceOracle(state);
 
 	for (let i = 0; i < n; i++) {
 		costMatrix[i] = [];
 		for (let j = 0; j < n; j++) {
 			if (i < numTaxis && j < numPassengers) {
-				costMatrix[i][j] = pathDistance(state.city, idleTaxis[i].position, unassignedPassengers[j].pickup);
+				const distance = oracle.distance(idleTaxis[i].position, unassignedPassengers[j].pickup, idleTaxis[i].heading);
+				costMatrix[i][j] = canServe(state, idleTaxis[i], unassignedPassengers[j], distance) ? distance : MAX_COST;
 			} else {
 				costMatrix[i][j] = MAX_COST;
 			}
@@ -180,7 +287,7 @@ export function defaultOptimizer(state: SimulationState, queueSize: number): Arr
 
 	for (let i = 0; i < assignments.length; i++) {
 		const j = assignments[i];
-		if (j >= 0 && i < idleTaxis.length && j < unassignedPassengers.length) {
+		if (j >= 0 && i < idleTaxis.length && j < unassignedPassengers.length && costMatrix[i][j] < MAX_COST) {
 			result.push({
 				taxiId: idleTaxis[i].id,
 				passengerId: unassignedPassengers[j].id,
@@ -191,14 +298,108 @@ export function defaultOptimizer(state: SimulationState, queueSize: number): Arr
 	}
 
 	if (assignmentCount > 0) {
-		console.log(`[OPTIMIZER] Assigned ${assignmentCount} taxis, total distance: ${totalDistance}, avg: ${(totalDistance / assignmentCount).toFixed(2)}`);
-		console.log('Cost Matrix:', costMatrix);
-		console.log('Assignments (taxi i -> passenger j):', assignments);
+		debugLog(`[OPTIMIZER] Assigned ${assignmentCount} taxis, total distance: ${totalDistance}, avg: ${(totalDistance / assignmentCount).toFixed(2)}`);
+		debugLog('Cost Matrix:', costMatrix);
+		debugLog('Assignments (taxi i -> passenger j):', assignments);
 	}
 
 	return result;
 }
 
+function isReassignable(taxi: Taxi): boolean {
+	return taxi.stops.length === 2 && taxi.stops[0].kind === 'pickup';
+}
+
+function matchedCost(costMatrix: number[][], assignments: number[], rows: number, cols: number): number {
+	let total = 0;
+	for (let i = 0; i < rows; i++) {
+		const j = assignments[i];
+		if (j >= 0 && j < cols) {
+			total += costMatrix[i][j];
+		}
+	}
+	return total;
+}
+
+export function assignReoptimized(state: SimulationState, config: SimulationConfig): void {
+	const freeTaxis = state.taxis.filter(isAvailable);
+	const committedTaxis = state.taxis.filter(isReassignable);
+	const committedPassengers = committedTaxis.map(t => state.waitingPassengers.find(p => p.id === t.stops[0].passengerId)!);
+	const unassignedPassengers = state.waitingPassengers
+		.filter(p => !p.assignedTaxiId && !p.unreachable).slice(0, config.queueSize);
+
+	// Free taxis and new requests come first so the baseline sub-problem is the top-left block.
+	const taxis = [...freeTaxis, ...committedTaxis];
+	const passengers = [...unassignedPassengers, ...committedPassengers];
+	if (taxis.length === 0 || passengers.length === 0) {
+		return;
+	}
+
+	const n = Math.max(taxis.length, passengers.length);
+	const MAX_COST = state.city.width * state.city.height * 2;
+	const costMatrix: number[][] = [];
+	const oracle = distanceOracle(state);
+
+	for (let i = 0; i < n; i++) {
+		costMatrix[i] = [];
+		for (let j = 0; j < n; j++) {
+			if (i < taxis.length && j < passengers.length) {
+				const distance = oracle.distance(taxis[i].position, passengers[j].pickup, taxis[i].heading);
+				costMatrix[i][j] = canServe(state, taxis[i], passengers[j], distance) ? Math.min(distance, MAX_COST) : MAX_COST;
+			} else {
+				costMatrix[i][j] = MAX_COST;
+			}
+		}
+	}
+
+	// Baseline: keep every existing match and only solve free taxis against new requests.
+	const subSize = Math.max(freeTaxis.length, unassignedPassengers.length);
+	const subMatrix = costMatrix.slice(0, subSize).map((row, i) =>
+		row.slice(0, subSize).map((cost, j) => i < freeTaxis.length && j < unassignedPassengers.length ? cost : MAX_COST)
+	);
+	const subAssignments = hungarianAlgorithm(subMatrix);
+	let baselineCost = matchedCost(subMatrix, subAssignments, freeTaxis.length, unassignedPassengers.length);
+	committedTaxis.forEach((_, k) => {
+		baselineCost += costMatrix[freeTaxis.length + k][unassignedPassengers.length + k];
+	});
+
+	const jointAssignments = hungarianAlgorithm(costMatrix);
+	const jointCost = matchedCost(costMatrix, jointAssignments, taxis.length, passengers.length);
+
+	const useJoint = committedTaxis.length > 0 && baselineCost - jointCost >= config.reassignThreshold;
+	const assignments = useJoint ? jointAssignments : subAssignments;
+	const rows = useJoint ? taxis.length : freeTaxis.length;
+	const cols = useJoint ? passengers.length : unassignedPassengers.length;
+
+	if (useJoint) {
+		let reassigned = 0;
+		committedTaxis.forEach((taxi, k) => {
+			if (jointAssignments[freeTaxis.length + k] === unassignedPassengers.length + k) return;
+
+			committedPassengers[k].assignedTaxiId = undefined;
+			taxi.stops = [];
+			routeTaxi(state, taxi);
+			reassigned++;
+		});
+		state.reassignments += reassigned;
+
+		if (reassigned > 0) {
+			debugLog(`[REOPTIMIZER] Reassigned ${reassigned} passengers, saving ${baselineCost - jointCost} cells`);
+		}
+	}
+
+	for (let i = 0; i < rows; i++) {
+		const j = assignments[i];
+		if (j < 0 || j >= cols || costMatrix[i][j] >= MAX_COST) continue;
+
+		const taxi = taxis[i];
+		const passenger = passengers[j];
+		if (isAvailable(taxi) && !passenger.assignedTaxiId) {
+			assignPassenger(state, taxi, passenger);
+		}
+	}
+}
+
 function hungarianAlgorithm(costMatrix: number[][]): number[] {
 	const n = costMatrix.length;
 	if (n === 0) return [];
@@ -266,43 +467,134 @@ function hungarianAlgorithm(costMatrix: number[][]): number[] {
 	return result;
 }
 
+function serveStops(state: SimulationState, taxi: Taxi): void {
+	while (taxi.stops.length > 0 && samePosition(taxi.stops[0].position, taxi.position)) {
+		const stop = taxi.stops.shift()!;
+
+		if (stop.kind === 'pickup') {
+			const idx = state.waitingPassengers.findIndex(p => p.id === stop.passengerId);
+			if (idx >= 0) {
+				const passenger = state.waitingPassengers[idx];
+				passenger.pickedUpTick = state.tick;
+				passenger.directDistance ??= distanceOracle(state).distance(passenger.pickup, passenger.destination);
+				state.waitingPassengers.splice(idx, 1);
+				state.activePassengers.push(passenger);
+				taxi.onboard++;
+				taxi.revenue += state.fares.baseFare;
+			}
+		} else {
+			const idx = state.activePassengers.findIndex(p => p.id === stop.passengerId);
+			if (idx >= 0) {
+				const passenger = state.activePassengers[idx];
+				passenger.deliveredTick = state.tick;
+				state.activePassengers.splice(idx, 1);
+				state.completedPassengers.push(passenger);
+				taxi.onboard--;
+				taxi.totalDeliveries++;
+			}
+		}
+	}
+
+	routeTaxi(state, taxi);
+}
+
 export function tickSimulation(state: SimulationState): void {
+	const cost = travelCost(state);
+
 	for (const taxi of state.taxis) {
-		if (taxi.path.length > 0) {
-			taxi.position = taxi.path.shift()!;
-			taxi.totalDistance++;
+		if (taxi.state === 'charging') {
+			taxi.chargingTicks++;
+			taxi.battery = Math.min(taxi.batteryCapacity, taxi.battery + state.energy.chargeRate);
+			if (taxi.battery >= taxi.batteryCapacity) {
+				taxi.state = 'idle';
+				taxi.targetPosition = undefined;
+			}
+			continue;
+		}
+		if (taxi.state === 'to_charger') {
+			taxi.chargingTicks++;
+		}
 
-			if (taxi.path.length === 0 && taxi.currentPassenger) {
-				if (taxi.state === 'picking_up') {
-					taxi.currentPassenger.pickedUpTick = state.tick;
-					taxi.state = 'delivering';
-					taxi.targetPosition = taxi.currentPassenger.destination;
-					taxi.path = findPath(state.city, taxi.position, taxi.currentPassenger.destination);
-
-					const idx = state.waitingPassengers.findIndex(p => p.id === taxi.currentPassenger!.id);
-					if (idx >= 0) {
-						state.waitingPassengers.splice(idx, 1);
-						state.activePassengers.push(taxi.currentPassenger);
-					}
-				} else if (taxi.state === 'delivering') {
-					taxi.currentPassenger.deliveredTick = state.tick;
-					taxi.totalDeliveries++;
-
-					const idx = state.activePassengers.findIndex(p => p.id === taxi.currentPassenger!.id);
-					if (idx >= 0) {
-						state.activePassengers.splice(idx, 1);
-						state.completedPassengers.push(taxi.currentPassenger);
-					}
+		if (taxi.path.length > 0) {
+			// A taxi needs as many ticks as the cell's current travel time to enter it.
+			taxi.moveProgress += 1;
+			const enterCost = cost(taxi.path[0]);
+			if (taxi.moveProgress < enterCost) {
+				taxi.revenue += state.fares.waitingRate * taxi.onboard;
+				continue;
+			}
+			taxi.moveProgress -= enterCost;
 
-					taxi.currentPassenger = undefined;
-					taxi.targetPosition = undefined;
-					taxi.state = 'idle';
-				}
+			const next = taxi.path.shift()!;
+			taxi.heading = directionBetween(taxi.position, next) ?? taxi.heading;
+			taxi.position = next;
+			taxi.totalDistance++;
+			taxi.passengerDistance += taxi.onboard;
+			taxi.revenue += state.fares.perCellRate * taxi.onboard;
+			if (taxi.onboard === 0) {
+				taxi.deadheadDistance++;
+			}
+			taxi.battery = Math.max(0, taxi.battery - 1);
+
+			if (taxi.path.length === 0 && taxi.stops.length > 0) {
+				serveStops(state, taxi);
+			} else if (taxi.path.length === 0 && taxi.state === 'repositioning') {
+				taxi.state = 'idle';
+				taxi.targetPosition = undefined;
+			} else if (taxi.path.length === 0 && taxi.state === 'to_charger') {
+				taxi.state = 'charging';
+			} else if (taxi.path.length === 0 && taxi.state === 'to_depot') {
+				taxi.state = 'offline';
+				taxi.targetPosition = undefined;
 			}
 		}
 	}
 
 	state.tick++;
+	abandonImpatientPassengers(state);
+	sendLowTaxisToCharge(state);
+}
+
+function sendLowTaxisToCharge(state: SimulationState): void {
+	for (const taxi of state.taxis) {
+		if (taxi.stops.length > 0 || (taxi.state !== 'idle' && taxi.state !== 'repositioning')) continue;
+		if (!needsCharge(state, taxi)) continue;
+
+		const charger = nearestCharger(state, taxi.position, taxi.heading);
+		if (!charger) continue;
+
+		taxi.targetPosition = charger.station;
+		taxi.moveProgress = 0;
+		if (charger.distance === 0) {
+			taxi.state = 'charging';
+			taxi.path = [];
+		} else {
+			taxi.state = 'to_charger';
+			taxi.path = planRoute(state, taxi, charger.station);
+		}
+	}
+}
+
+/** Drops requests whose patience has run out, pulling them off any taxi that was on its way. */
+function abandonImpatientPassengers(state: SimulationState): void {
+	const abandoned = state.waitingPassengers.filter(p =>
+		p.patience !== undefined && state.tick - p.spawnTick > p.patience
+	);
+
+	for (const passenger of abandoned) {
+		passenger.abandonedTick = state.tick;
+		state.waitingPassengers.splice(state.waitingPassengers.indexOf(passenger), 1);
+		state.abandonedPassengers.push(passenger);
+
+		const taxi = state.taxis.find(t => t.id === passenger.assignedTaxiId);
+		if (!taxi) continue;
+
+		const nextStop = taxi.stops[0];
+		taxi.stops = taxi.stops.filter(stop => stop.passengerId !== passenger.id);
+		if (taxi.stops[0] !== nextStop) {
+			routeTaxi(state, taxi);
+		}
+	}
 }
 
 export function calculateMetrics(state: SimulationState): Metrics {
@@ -310,6 +602,8 @@ export function calculateMetrics(state: SimulationState): Metrics {
 
 	let totalWaitTime = 0;
 	let totalTripTime = 0;
+	let totalDetourRatio = 0;
+	let detourSamples = 0;
 
 	for (const p of completed) {
 		if (p.pickedUpTick !== undefined) {
@@ -317,6 +611,10 @@ export function calculateMetrics(state: SimulationState): Metrics {
 		}
 		if (p.deliveredTick !== undefined && p.pickedUpTick !== undefined) {
 			totalTripTime += p.deliveredTick - p.pickedUpTick;
+			if (p.directDistance) {
+				totalDetourRatio += (p.deliveredTick - p.pickedUpTick) / p.directDistance;
+				detourSamples++;
+			}
 		}
 	}
 
@@ -326,15 +624,35 @@ export function calculateMetrics(state: SimulationState): Metrics {
 
 	const waitingCount = state.waitingPassengers.length;
 	const servedCount = completed.length;
+	const abandonedCount = state.abandonedPassengers.length;
 	const totalWaiting = waitingCount + servedCount;
+	const totalRequests = waitingCount + state.activePassengers.length + servedCount + abandonedCount;
 
-	const busyTaxis = state.taxis.filter(t => t.state !== 'idle').length;
+	const busyTaxis = state.taxis.filter(t => t.stops.length > 0).length;
+	// Taxis past their shift still count while they finish their last trips.
+	const activeTaxis = state.taxis.filter(t => t.onShift || t.stops.length > 0).length;
+	const chargingTicks = state.taxis.reduce((sum, t) => sum + t.chargingTicks, 0);
+	const drivenDistance = state.taxis.reduce((sum, t) => sum + t.totalDistance, 0);
+	const passengerDistance = state.taxis.reduce((sum, t) => sum + t.passengerDistance, 0);
+	const revenue = state.taxis.reduce((sum, t) => sum + t.revenue, 0);
+	const deadheadDistance = state.taxis.reduce((sum, t) => sum + t.deadheadDistance, 0);
 
 	return {
 		avgWaitTime: totalWaiting > 0 ? totalWaitTime / totalWaiting : 0,
 		avgTripTime: servedCount > 0 ? totalTripTime / servedCount : 0,
 		totalPassengersServed: servedCount,
 		totalPassengersWaiting: waitingCount,
-		avgTaxiUtilization: state.taxis.length > 0 ? busyTaxis / state.taxis.length : 0,
+		avgTaxiUtilization: activeTaxis > 0 ? busyTaxis / activeTaxis : 0,
+		avgOccupancy: drivenDistance > 0 ? passengerDistance / drivenDistance : 0,
+		avgDetourRatio: detourSamples > 0 ? totalDetourRatio / detourSamples : 0,
+		totalReassignments: state.reassignments,
+		abandonmentRate: totalRequests > 0 ? abandonedCount / totalRequests : 0,
+		lostDemand: abandonedCount,
+		chargingDowntime: state.tick > 0 && state.taxis.length > 0 ? chargingTicks / (state.taxis.length * state.tick) : 0,
+		activeTaxis,
+		revenue,
+		deadheadDistance,
+		profit: revenue - deadheadDistance * state.fares.deadheadCostPerCell,
+		unreachablePassengers: state.waitingPassengers.filter(p => p.unreachable).length,
 	};
 }
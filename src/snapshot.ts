@@ -0,0 +1,315 @@
+import type {
+	CellType,
+	City,
+	Direction,
+	Passenger,
+	Position,
+	SimulationConfig,
+	SimulationState,
+	Taxi,
+	EnergySettings,
+	FareSettings,
+	TrafficSettings,
+	TurnRules,
+} from './types';
+import { DEFAULT_CONFIG } from './config';
+import { calculateMetrics } from './simulation';
+import { demandModelFromLayout, type ZoneLayout } from './demand';
+import { seededRandom } from './random';
+import type { PassengerSpawner } from './spawner';
+import type { Lane, LaneSpec } from './lanes';
+import { createCollector } from './collector';
+import type { TraceRecord, TraceSource } from './trace';
+
+export const SNAPSHOT_VERSION = 4;
+
+const CELL_CODES: Record<CellType, string> = { road: 'r', closed: 'c', building: 'b', empty: 'e' };
+const ONE_WAY_CODES: Record<Direction, string> = { north: 'n', south: 's', east: 'e', west: 'w' };
+
+export interface SerializedCity {
+	width: number;
+	height: number;
+	/** One string per row, one character per cell (see CELL_CODES). */
+	grid: string[];
+	/** One string per row: a direction code for one-way cells, `.` otherwise. */
+	oneWay: string[];
+	pickupSpots: Position[];
+	turnRules: TurnRules;
+	chargingStations: Position[];
+	version: number;
+}
+
+interface SerializedLane extends LaneSpec {
+	taxis: Taxi[];
+	waitingPassengers: Passenger[];
+	activePassengers: Passenger[];
+	completedPassengers: Passenger[];
+	/** Absent in snapshots saved before passengers could abandon. */
+	abandonedPassengers?: Passenger[];
+	tick: number;
+	reassignments: number;
+}
+
+export interface Snapshot {
+	version: number;
+	seed: number;
+	config: SimulationConfig;
+	city: SerializedCity;
+	traffic: TrafficSettings;
+	energy: EnergySettings;
+	fares: FareSettings;
+	lanes: SerializedLane[];
+	spawner: {
+		rngState: number;
+		burstFired: boolean;
+		nextId: number;
+		zones: ZoneLayout[];
+	};
+	trace?: TraceSource;
+	recorded: TraceRecord[];
+}
+
+/** Everything needed to carry on a run exactly where it was left. */
+export interface SavedRun {
+	seed: number;
+	config: SimulationConfig;
+	lanes: Lane[];
+	spawner: PassengerSpawner;
+	trace: TraceSource | null;
+	recorded: TraceRecord[];
+}
+
+function decodeTable<T>(rows: string[], codes: Record<string, string>, fallback: T): T[][] {
+	const lookup = new Map(Object.entries(codes).map(([value, code]) => [code, value]));
+	return rows.map(row => [...row].map(code => (lookup.get(code) as T | undefined) ?? fallback));
+}
+
+export function serializeCity(city: City): SerializedCity {
+	return {
+		width: city.width,
+		height: city.height,
+		grid: city.grid.map(row => row.map(cell => CELL_CODES[cell]).join('')),
+		oneWay: city.oneWay.map(row => row.map(dir => (dir ? ONE_WAY_CODES[dir] : '.')).join('')),
+		pickupSpots: city.pickupSpots,
+		turnRules: city.turnRules,
+		chargingStations: city.chargingStations,
+		version: city.version,
+	};
+}
+
+export function deserializeCity(data: SerializedCity): City {
+	return {
+		width: data.width,
+		height: data.height,
+		grid: decodeTable<CellType>(data.grid, CELL_CODES, 'empty'),
+		oneWay: decodeTable<Direction | null>(data.oneWay, ONE_WAY_CODES, null),
+		pickupSpots: data.pickupSpots.map(p => ({ ...p })),
+		turnRules: { ...data.turnRules },
+		chargingStations: data.chargingStations.map(p => ({ ...p })),
+		version: data.version,
+	};
+}
+
+export function createSnapshot(run: SavedRun): Snapshot {
+	const { city, traffic, energy, fares } = run.lanes[0].state;
+
+	return {
+		version: SNAPSHOT_VERSION,
+		seed: run.seed,
+		config: run.config,
+		city: serializeCity(city),
+		traffic,
+		energy,
+		fares,
+		lanes: run.lanes.map(({ strategyId, repositioningId, state }) => ({
+			strategyId,
+			repositioningId,
+			taxis: state.taxis,
+			waitingPassengers: state.waitingPassengers,
+			activePassengers: state.activePassengers,
+			completedPassengers: state.completedPassengers,
+			abandonedPassengers: state.abandonedPassengers,
+			tick: state.tick,
+			reassignments: state.reassignments,
+		})),
+		spawner: {
+			rngState: run.spawner.random.state,
+			burstFired: run.spawner.burstFired,
+			nextId: run.spawner.nextId,
+			zones: run.spawner.demand.zones.map(({ id, kind, x, y, width, height }) => ({ id, kind, x, y, width, height })),
+		},
+		...(run.trace ? { trace: run.trace } : {}),
+		recorded: run.recorded,
+	};
+}
+
+export function restoreSnapshot(snapshot: Snapshot): SavedRun {
+	const city = deserializeCity(snapshot.city);
+	const traffic = { ...snapshot.traffic };
+	const energy = { ...snapshot.energy };
+	const fares = { ...snapshot.fares };
+
+	const lanes = snapshot.lanes.map((lane, idx): Lane => {
+		// Copy the lists so the restored run never aliases the snapshot it came from.
+		const state: SimulationState = {
+			city,
+			traffic,
+			energy,
+			fares,
+			taxis: structuredClone(lane.taxis),
+			waitingPassengers: structuredClone(lane.waitingPassengers),
+			activePassengers: structuredClone(lane.activePassengers),
+			completedPassengers: structuredClone(lane.completedPassengers),
+			abandonedPassengers: structuredClone(lane.abandonedPassengers ?? []),
+			tick: lane.tick,
+			reassignments: lane.reassignments,
+		};
+		return {
+			id: `lane-${idx}`,
+			strategyId: lane.strategyId,
+			repositioningId: lane.repositioningId,
+			state,
+			metrics: calculateMetrics(state),
+			collector: createCollector(state),
+		};
+	});
+
+	return {
+		seed: snapshot.seed,
+		// Settings added since the snapshot was saved keep their defaults.
+		config: { ...DEFAULT_CONFIG, ...snapshot.config },
+		lanes,
+		spawner: {
+			random: seededRandom(snapshot.spawner.rngState),
+			burstFired: snapshot.spawner.burstFired,
+			nextId: snapshot.spawner.nextId,
+			demand: demandModelFromLayout(city, snapshot.spawner.zones),
+		},
+		trace: snapshot.trace ? structuredClone(snapshot.trace) : null,
+		recorded: structuredClone(snapshot.recorded),
+	};
+}
+
+// Earlier snapshot versions, each missing what the next one added.
+type LegacyLane<T> = Omit<SerializedLane, 'taxis'> & { taxis: T[] };
+
+type TaxiV3 = Omit<Taxi, 'revenue' | 'deadheadDistance'>;
+
+interface SnapshotV3 extends Omit<Snapshot, 'config' | 'fares' | 'lanes'> {
+	config: Omit<SimulationConfig, 'baseFare' | 'farePerCell' | 'fareWaitingRate' | 'deadheadCostPerCell'>;
+	lanes: LegacyLane<TaxiV3>[];
+}
+
+type TaxiV2 = Omit<TaxiV3, 'onShift'>;
+
+interface SnapshotV2 extends Omit<SnapshotV3, 'config' | 'lanes'> {
+	config: Omit<SnapshotV3['config'], 'shifts' | 'shiftEndBehavior'>;
+	lanes: LegacyLane<TaxiV2>[];
+}
+
+type TaxiV1 = Omit<TaxiV2, 'battery' | 'batteryCapacity' | 'chargingTicks'>;
+
+interface SnapshotV1 extends Omit<SnapshotV2, 'config' | 'city' | 'energy' | 'lanes'> {
+	config: Omit<SnapshotV2['config'], 'batteryRange' | 'chargeRate' | 'lowBatteryThreshold' | 'numChargingStations'>;
+	city: Omit<SerializedCity, 'chargingStations'>;
+	lanes: LegacyLane<TaxiV1>[];
+}
+
+// Version 1 predates the electric fleet: its taxis run without a battery and the city has no chargers.
+function migrateFromV1(data: SnapshotV1): SnapshotV2 {
+	const config = { ...DEFAULT_CONFIG, ...data.config, batteryRange: 0, numChargingStations: 0 };
+	return {
+		...data,
+		version: 2,
+		config,
+		city: { ...data.city, chargingStations: [] },
+		energy: { chargeRate: config.chargeRate, lowBatteryThreshold: config.lowBatteryThreshold },
+		lanes: data.lanes.map(lane => ({
+			...lane,
+			taxis: lane.taxis.map(taxi => ({
+				...taxi,
+				battery: config.batteryRange,
+				batteryCapacity: config.batteryRange,
+				chargingTicks: 0,
+			})),
+		})),
+	};
+}
+
+// Version 2 predates driver shifts: every saved taxi worked the whole day.
+function migrateFromV2(data: SnapshotV2): SnapshotV3 {
+	return {
+		...data,
+		version: 3,
+		config: { ...data.config, shifts: [], shiftEndBehavior: DEFAULT_CONFIG.shiftEndBehavior },
+		lanes: data.lanes.map(lane => ({
+			...lane,
+			taxis: lane.taxis.map(taxi => ({ ...taxi, onShift: true })),
+		})),
+	};
+}
+
+// Version 3 predates fares: earnings start from zero at the point the run is loaded.
+function migrateFromV3(data: SnapshotV3): Snapshot {
+	const { baseFare, farePerCell, fareWaitingRate, deadheadCostPerCell } = DEFAULT_CONFIG;
+	return {
+		...data,
+		version: 4,
+		config: { ...data.config, baseFare, farePerCell, fareWaitingRate, deadheadCostPerCell },
+		fares: { baseFare, perCellRate: farePerCell, waitingRate: fareWaitingRate, deadheadCostPerCell },
+		lanes: data.lanes.map(lane => ({
+			...lane,
+			taxis: lane.taxis.map(taxi => ({ ...taxi, revenue: 0, deadheadDistance: 0 })),
+		})),
+	};
+}
+
+export function parseSnapshot(text: string): Snapshot {
+	const parsed: unknown = JSON.parse(text);
+	if (typeof parsed !== 'object' || parsed === null || !('version' in parsed) || typeof parsed.version !== 'number') {
+		throw new Error('Not a simulation snapshot');
+	}
+
+	// Each step assumes the payload has the shape of the version it reads.
+	let data = parsed as { version: number };
+	if (data.version === 1) {
+		data = migrateFromV1(data as SnapshotV1);
+	}
+	if (data.version === 2) {
+		data = migrateFromV2(data as SnapshotV2);
+	}
+	if (data.version === 3) {
+		data = migrateFromV3(data as SnapshotV3);
+	}
+	if (data.version !== SNAPSHOT_VERSION) {
+		throw new Error(`Unsupported snapshot version ${data.version} (expected ${SNAPSHOT_VERSION})`);
+	}
+
+	const snapshot = data as Partial<Snapshot>;
+	if (!Array.isArray(snapshot.lanes) || snapshot.lanes.length === 0 || !snapshot.city || !snapshot.spawner) {
+		throw new Error('Snapshot is missing lanes, city or spawner state');
+	}
+	return snapshot as Snapshot;
+}
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+	const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+	return new Uint8Array(await response.arrayBuffer());
+}
+
+/** Deflates the snapshot into a base64url string short enough to share as a link. */
+export async function encodeSnapshot(snapshot: Snapshot): Promise<string> {
+	const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(snapshot)), new CompressionStream('deflate-raw'));
+	let binary = '';
+	for (let i = 0; i < compressed.length; i += 0x8000) {
+		binary += String.fromCharCode(...compressed.subarray(i, i + 0x8000));
+	}
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function decodeSnapshot(encoded: string): Promise<Snapshot> {
+	const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+	const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+	const json = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+	return parseSnapshot(new TextDecoder().decode(json));
+}
@@ -0,0 +1,100 @@
+import type { City, Passenger, SimulationConfig } from './types';
+import { createDemandModel, hourOfDay, intensity, sampleTrip, type DemandModel, type Zone } from './demand';
+import { seededRandom, type SeededRandom } from './random';
+
+export interface PassengerSpawner {
+	random: SeededRandom;
+	burstFired: boolean;
+	demand: DemandModel;
+	nextId: number;
+}
+
+export function createSpawner(seed: number, city: City): PassengerSpawner {
+	const random = seededRandom(seed + 5000);
+	return {
+		random,
+		burstFired: false,
+		demand: createDemandModel(city, random),
+		nextId: 0,
+	};
+}
+
+function poisson(mean: number, random: () => number): number {
+	const limit = Math.exp(-mean);
+	let count = 0;
+	let product = random();
+	while (product > limit) {
+		count++;
+		product *= random();
+	}
+	return count;
+}
+
+function drawPatience(config: SimulationConfig, random: () => number): number | undefined {
+	const { patienceMean: mean, patienceSpread: spread } = config;
+	let patience: number;
+
+	switch (config.patienceDistribution) {
+		case 'infinite':
+			return undefined;
+		case 'fixed':
+			patience = mean;
+			break;
+		case 'uniform':
+			patience = mean - spread + random() * 2 * spread;
+			break;
+		case 'normal':
+			// Box-Muller; 1 - random() keeps the logarithm finite.
+			patience = mean + spread * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+			break;
+		case 'exponential':
+			patience = -mean * Math.log(1 - random());
+			break;
+	}
+
+	return Math.max(1, Math.round(patience));
+}
+
+export function spawnForTick(
+	spawner: PassengerSpawner,
+	tick: number,
+	config: SimulationConfig
+): Passenger[] {
+	const newPassengers: Passenger[] = [];
+	if (tick % config.ticksPerSpawnCheck !== 0) {
+		return newPassengers;
+	}
+
+	const hour = hourOfDay(tick, config);
+	const { demand, random } = spawner;
+	const addTrip = (origin?: Zone) => {
+		const trip = sampleTrip(demand, hour, random, origin);
+		if (trip) {
+			const patience = drawPatience(config, random);
+			newPassengers.push({
+				id: `passenger-${spawner.nextId++}`,
+				...trip,
+				spawnTick: tick,
+				...(patience !== undefined ? { patience } : {}),
+			});
+		}
+	};
+
+	// A one-off surge of trips out of a single zone, on top of the regular demand.
+	if (!spawner.burstFired && random() < config.burstChance) {
+		spawner.burstFired = true;
+		const origin = demand.zones[Math.floor(random() * demand.zones.length)];
+		const burstSize = config.burstMinSize +
+			Math.floor(random() * (config.burstMaxSize - config.burstMinSize + 1));
+		for (let i = 0; i < burstSize; i++) {
+			addTrip(origin);
+		}
+	}
+
+	const count = poisson(config.passengerSpawnChance * intensity(demand, hour), random);
+	for (let i = 0; i < count; i++) {
+		addTrip();
+	}
+
+	return newPassengers;
+}
@@ -0,0 +1,54 @@
+import type { SimulationState, SimulationConfig } from './types';
+import { assignGreedy, assignOptimized, assignReoptimized, defaultOptimizer } from './simulation';
+import { assignPooled } from './pooling';
+
+export interface DispatchStrategy {
+	id: string;
+	label: string;
+	assign: (state: SimulationState, config: SimulationConfig) => void;
+}
+
+const strategies = new Map<string, DispatchStrategy>();
+
+export function registerStrategy(strategy: DispatchStrategy): void {
+	if (strategies.has(strategy.id)) {
+		throw new Error(`Dispatch strategy "${strategy.id}" is already registered`);
+	}
+	strategies.set(strategy.id, strategy);
+}
+
+export function getStrategy(id: string): DispatchStrategy {
+	const strategy = strategies.get(id);
+	if (!strategy) {
+		throw new Error(`Unknown dispatch strategy "${id}"`);
+	}
+	return strategy;
+}
+
+export function listStrategies(): DispatchStrategy[] {
+	return [...strategies.values()];
+}
+
+registerStrategy({
+	id: 'greedy',
+	label: 'Greedy Assignment (Nearest Taxi)',
+	assign: state => assignGreedy(state),
+});
+
+registerStrategy({
+	id: 'optimized',
+	label: 'Optimized Assignment',
+	assign: (state, config) => assignOptimized(state, config.queueSize, defaultOptimizer),
+});
+
+registerStrategy({
+	id: 'reoptimized',
+	label: 'Optimized + Reassignment',
+	assign: assignReoptimized,
+});
+
+registerStrategy({
+	id: 'pooled',
+	label: 'Ride Pooling (Insertion)',
+	assign: assignPooled,
+});
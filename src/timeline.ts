@@ -0,0 +1,122 @@
+import type { Lane } from './lanes';
+import type { PassengerSpawner } from './spawner';
+import type { TraceSource } from './trace';
+import { seededRandom } from './random';
+
+export const HISTORY_LIMIT = 2000;
+
+/** Lengths of a lane's append-only passenger lists, which later frames extend in place. */
+export interface ClosedLengths {
+	completed: number;
+	abandoned: number;
+}
+
+/**
+ * One tick of a run. Every tick clones the lane states, except for delivered
+ * and abandoned passengers: each lane keeps one list of each that later frames
+ * extend, and a frame only records how long they were. So a frame costs little
+ * more than the taxis and open requests it holds.
+ */
+export interface TimelineFrame {
+	tick: number;
+	lanes: Lane[];
+	closed: ClosedLengths[];
+	spawner: { rngState: number; burstFired: boolean; nextId: number };
+	traceCursor: number | null;
+	recordedLength: number;
+}
+
+export interface Timeline {
+	frames: TimelineFrame[];
+	/** Index of the frame on screen; below the last frame while scrubbing. */
+	cursor: number;
+}
+
+export function captureFrame(
+	lanes: Lane[],
+	spawner: PassengerSpawner,
+	trace: TraceSource | null,
+	recordedLength: number
+): TimelineFrame {
+	return {
+		tick: lanes[0].state.tick,
+		lanes,
+		closed: lanes.map(({ state }) => ({
+			completed: state.completedPassengers.length,
+			abandoned: state.abandonedPassengers.length,
+		})),
+		spawner: { rngState: spawner.random.state, burstFired: spawner.burstFired, nextId: spawner.nextId },
+		traceCursor: trace ? trace.cursor : null,
+		recordedLength,
+	};
+}
+
+export function startTimeline(frame: TimelineFrame): Timeline {
+	return { frames: [frame], cursor: 0 };
+}
+
+export function isScrubbing(timeline: Timeline): boolean {
+	return timeline.cursor < timeline.frames.length - 1;
+}
+
+/** Appends a frame after the cursor, discarding any frames it forks away from. */
+export function pushFrame(timeline: Timeline, frame: TimelineFrame): Timeline {
+	const frames = [...timeline.frames.slice(0, timeline.cursor + 1), frame];
+	const dropped = Math.max(0, frames.length - HISTORY_LIMIT);
+	return { frames: frames.slice(dropped), cursor: frames.length - 1 - dropped };
+}
+
+/** Replaces the frame under the cursor, e.g. after passengers were added between ticks. */
+export function replaceFrame(timeline: Timeline, frame: TimelineFrame): Timeline {
+	const frames = [...timeline.frames.slice(0, timeline.cursor), frame];
+	return { frames, cursor: frames.length - 1 };
+}
+
+// The frame's lanes with their passenger lists cut back to its tick, which
+// gives it lists of its own should the run fork from there.
+function trimFrame(frame: TimelineFrame): TimelineFrame {
+	const lanes = frame.lanes.map((lane, idx) => {
+		const { completed, abandoned } = frame.closed[idx];
+		const { state } = lane;
+		if (state.completedPassengers.length === completed && state.abandonedPassengers.length === abandoned) {
+			return lane;
+		}
+		return {
+			...lane,
+			state: {
+				...state,
+				completedPassengers: state.completedPassengers.slice(0, completed),
+				abandonedPassengers: state.abandonedPassengers.slice(0, abandoned),
+			},
+		};
+	});
+	return lanes.every((lane, idx) => lane === frame.lanes[idx]) ? frame : { ...frame, lanes };
+}
+
+export function seekTick(timeline: Timeline, tick: number): Timeline {
+	const { frames } = timeline;
+	const first = frames[0].tick;
+	const index = Math.min(Math.max(tick - first, 0), frames.length - 1);
+	const frame = trimFrame(frames[index]);
+	return {
+		frames: frame === frames[index] ? frames : frames.map((f, i) => (i === index ? frame : f)),
+		cursor: index,
+	};
+}
+
+/** Rewinds the spawner and trace to where they stood at `frame`, so the run can fork from there. */
+export function restoreSources(
+	frame: TimelineFrame,
+	spawner: PassengerSpawner,
+	trace: TraceSource | null
+): { spawner: PassengerSpawner; trace: TraceSource | null } {
+	return {
+		spawner: {
+			...spawner,
+			random: seededRandom(frame.spawner.rngState),
+			burstFired: frame.spawner.burstFired,
+			nextId: frame.spawner.nextId,
+		},
+		trace: trace && frame.traceCursor !== null ? { ...trace, cursor: frame.traceCursor } : trace,
+	};
+}
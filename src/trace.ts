@@ -0,0 +1,184 @@
+import type { City, Passenger, Position } from './types';
+import { nearestRoadCell } from './roads';
+
+export interface TraceRecord {
+	id: string;
+	spawnTick: number;
+	pickup: Position;
+	destination: Position;
+	/** Added by clicking on the map rather than by the spawner. */
+	manual?: boolean;
+	patience?: number;
+}
+
+export type TraceFormat = 'jsonl' | 'csv';
+
+const CSV_COLUMNS = ['id', 'spawnTick', 'pickupX', 'pickupY', 'destinationX', 'destinationY', 'manual', 'patience'];
+
+export function toTraceRecord(passenger: Passenger, manual = false): TraceRecord {
+	return {
+		id: passenger.id,
+		spawnTick: passenger.spawnTick,
+		pickup: { ...passenger.pickup },
+		destination: { ...passenger.destination },
+		...(manual ? { manual } : {}),
+		...(passenger.patience !== undefined ? { patience: passenger.patience } : {}),
+	};
+}
+
+export function formatTrace(records: TraceRecord[], format: TraceFormat): string {
+	if (format === 'jsonl') {
+		return records.map(r => JSON.stringify(r)).join('\n') + '\n';
+	}
+
+	const rows = records.map(r => [
+		r.id,
+		r.spawnTick,
+		r.pickup.x,
+		r.pickup.y,
+		r.destination.x,
+		r.destination.y,
+		r.manual ? 1 : 0,
+		r.patience ?? '',
+	].join(','));
+	return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+function parseNumber(value: unknown, field: string, line: number): number {
+	const n = typeof value === 'number' ? value : Number(value);
+	if (value === undefined || value === '' || !Number.isFinite(n)) {
+		throw new Error(`Trace line ${line}: invalid ${field} "${value}"`);
+	}
+	return n;
+}
+
+// Replay and export tell passengers apart by id, so a trace may use each id only once.
+function claimId(seen: Map<string, number>, id: string, line: number): string {
+	const first = seen.get(id);
+	if (first !== undefined) {
+		throw new Error(`Trace line ${line}: passenger id "${id}" is already used on line ${first}`);
+	}
+	seen.set(id, line);
+	return id;
+}
+
+function parseJsonl(text: string): TraceRecord[] {
+	const records: TraceRecord[] = [];
+	const seen = new Map<string, number>();
+	text.split('\n').forEach((raw, idx) => {
+		const line = raw.trim();
+		if (!line) return;
+
+		const entry = JSON.parse(line);
+		records.push({
+			id: claimId(seen, String(entry.id ?? `trace-${records.length}`), idx + 1),
+			spawnTick: parseNumber(entry.spawnTick, 'spawnTick', idx + 1),
+			pickup: {
+				x: parseNumber(entry.pickup?.x, 'pickup.x', idx + 1),
+				y: parseNumber(entry.pickup?.y, 'pickup.y', idx + 1),
+			},
+			destination: {
+				x: parseNumber(entry.destination?.x, 'destination.x', idx + 1),
+				y: parseNumber(entry.destination?.y, 'destination.y', idx + 1),
+			},
+			...(entry.manual ? { manual: true } : {}),
+			...(entry.patience !== undefined ? { patience: parseNumber(entry.patience, 'patience', idx + 1) } : {}),
+		});
+	});
+	return records;
+}
+
+function parseCsv(text: string): TraceRecord[] {
+	const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+	if (lines.length === 0) return [];
+
+	const header = lines[0].split(',').map(h => h.trim());
+	for (const column of ['spawnTick', 'pickupX', 'pickupY', 'destinationX', 'destinationY']) {
+		if (!header.includes(column)) {
+			throw new Error(`Trace CSV is missing the "${column}" column`);
+		}
+	}
+
+	const seen = new Map<string, number>();
+	return lines.slice(1).map((line, idx) => {
+		const cells = line.split(',').map(c => c.trim());
+		const get = (column: string) => cells[header.indexOf(column)];
+		const lineNo = idx + 2;
+		const manual = get('manual');
+		const patience = header.includes('patience') ? get('patience') : '';
+		return {
+			id: claimId(seen, get('id') || `trace-${idx}`, lineNo),
+			spawnTick: parseNumber(get('spawnTick'), 'spawnTick', lineNo),
+			pickup: {
+				x: parseNumber(get('pickupX'), 'pickupX', lineNo),
+				y: parseNumber(get('pickupY'), 'pickupY', lineNo),
+			},
+			destination: {
+				x: parseNumber(get('destinationX'), 'destinationX', lineNo),
+				y: parseNumber(get('destinationY'), 'destinationY', lineNo),
+			},
+			...(manual === '1' || manual === 'true' ? { manual: true } : {}),
+			...(patience ? { patience: parseNumber(patience, 'patience', lineNo) } : {}),
+		};
+	});
+}
+
+/** JSONL is recognised by its leading `{`; anything else is read as CSV. */
+export function detectTraceFormat(text: string): TraceFormat {
+	return text.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+}
+
+export function parseTrace(text: string): TraceRecord[] {
+	return detectTraceFormat(text) === 'jsonl' ? parseJsonl(text) : parseCsv(text);
+}
+
+export interface TraceSource {
+	name: string;
+	format: TraceFormat;
+	records: TraceRecord[];
+	cursor: number;
+	/** Records dropped because they could not be placed on a road or collapsed to a zero-length trip. */
+	skipped: number;
+}
+
+/** Snaps every record onto the city's roads and orders them by spawn tick for replay. */
+export function createTraceSource(name: string, format: TraceFormat, records: TraceRecord[], city: City): TraceSource {
+	const mapped: TraceRecord[] = [];
+	for (const record of records) {
+		const pickup = nearestRoadCell(city, record.pickup);
+		const destination = nearestRoadCell(city, record.destination);
+		if (!pickup || !destination || (pickup.x === destination.x && pickup.y === destination.y)) continue;
+		mapped.push({ ...record, pickup, destination });
+	}
+
+	// Array.prototype.sort is stable, so records within a tick keep their file order.
+	mapped.sort((a, b) => a.spawnTick - b.spawnTick);
+	return { name, format, records: mapped, cursor: 0, skipped: records.length - mapped.length };
+}
+
+export function rewindTrace(source: TraceSource): TraceSource {
+	return { ...source, cursor: 0 };
+}
+
+/**
+ * Returns the passengers due at `tick`, split the way they entered the original
+ * run: manual ones were added before the tick advanced, spawned ones with it.
+ */
+export function releaseTrace(source: TraceSource, tick: number): { manual: Passenger[]; spawned: Passenger[] } {
+	const manual: Passenger[] = [];
+	const spawned: Passenger[] = [];
+
+	while (source.cursor < source.records.length && source.records[source.cursor].spawnTick <= tick) {
+		const record = source.records[source.cursor++];
+		const passenger: Passenger = {
+			id: record.id,
+			pickup: { ...record.pickup },
+			destination: { ...record.destination },
+			spawnTick: tick,
+			...(record.patience !== undefined ? { patience: record.patience } : {}),
+		};
+		(record.manual ? manual : spawned).push(passenger);
+	}
+
+	return { manual, spawned };
+}
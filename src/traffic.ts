@@ -0,0 +1,106 @@
+import type { City, Position, SimulationState, TrafficSettings } from './types';
+import { createDistanceOracle, type CellCost, type DistanceOracle } from './pathfinding';
+
+const gridCache = new WeakMap<SimulationState, { tick: number; grid: number[][] }>();
+const staticOracles = new WeakMap<City, { version: number; oracle: DistanceOracle }>();
+const trafficOracles = new WeakMap<
+	City,
+	{ version: number; tick: number; backgroundTraffic: number; period: number; oracle: DistanceOracle }
+>();
+
+// Cheap per-cell phase so background traffic peaks at different times across the map.
+function cellPhase(x: number, y: number): number {
+	const h = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
+	return (h - Math.floor(h)) * Math.PI * 2;
+}
+
+function backgroundTraffic(settings: TrafficSettings, x: number, y: number, tick: number): number {
+	if (settings.backgroundTraffic <= 0 || settings.backgroundTrafficPeriod <= 0) return 0;
+	const wave = Math.sin((tick / settings.backgroundTrafficPeriod) * Math.PI * 2 + cellPhase(x, y));
+	return settings.backgroundTraffic * (0.5 + 0.5 * wave);
+}
+
+export function travelTimeGrid(state: SimulationState): number[][] {
+	const cached = gridCache.get(state);
+	if (cached && cached.tick === state.tick) {
+		return cached.grid;
+	}
+
+	const { city, traffic } = state;
+	const occupancy: number[][] = Array.from({ length: city.height }, () => new Array(city.width).fill(0));
+	// Parked taxis are pulled over and leave the road to through traffic.
+	for (const taxi of state.taxis) {
+		if (taxi.state === 'offline') continue;
+		occupancy[taxi.position.y][taxi.position.x]++;
+	}
+
+	const grid: number[][] = [];
+	for (let y = 0; y < city.height; y++) {
+		grid[y] = [];
+		for (let x = 0; x < city.width; x++) {
+			grid[y][x] = 1 +
+				traffic.congestionFactor * occupancy[y][x] +
+				backgroundTraffic(traffic, x, y, state.tick);
+		}
+	}
+
+	gridCache.set(state, { tick: state.tick, grid });
+	return grid;
+}
+
+export function travelCost(state: SimulationState): CellCost {
+	const grid = travelTimeGrid(state);
+	return (pos: Position) => grid[pos.y][pos.x];
+}
+
+/** Unit-cost routes over the road network, for asking whether a trip is possible at all. */
+export function networkOracle(city: City): DistanceOracle {
+	const cached = staticOracles.get(city);
+	if (cached && cached.version === city.version) return cached.oracle;
+
+	const oracle = createDistanceOracle(city);
+	staticOracles.set(city, { version: city.version, oracle });
+	return oracle;
+}
+
+// Background traffic is sampled this many times per period for dispatch.
+const EPOCHS_PER_PERIOD = 12;
+
+/**
+ * Travel times for ranking dispatch options. Without background traffic the
+ * costs never change, so one oracle per city is shared by every lane and
+ * tick. Background traffic is the same in every lane and is sampled once per
+ * epoch, so the oracle is rebuilt a few times per period rather than every
+ * tick. Congestion from a lane's own taxis changes every tick and only shapes
+ * the routes taxis actually drive (see `travelCost`).
+ */
+export function distanceOracle(state: SimulationState): DistanceOracle {
+	const { city, traffic } = state;
+
+	if (traffic.backgroundTraffic <= 0 || traffic.backgroundTrafficPeriod <= 0) {
+		return networkOracle(city);
+	}
+
+	const epochLength = Math.max(1, Math.round(traffic.backgroundTrafficPeriod / EPOCHS_PER_PERIOD));
+	const epochTick = Math.floor(state.tick / epochLength) * epochLength;
+	const cached = trafficOracles.get(city);
+	if (
+		cached &&
+		cached.version === city.version &&
+		cached.tick === epochTick &&
+		cached.backgroundTraffic === traffic.backgroundTraffic &&
+		cached.period === traffic.backgroundTrafficPeriod
+	) {
+		return cached.oracle;
+	}
+
+	const oracle = createDistanceOracle(city, (pos: Position) => 1 + backgroundTraffic(traffic, pos.x, pos.y, epochTick));
+	trafficOracles.set(city, {
+		version: city.version,
+		tick: epochTick,
+		backgroundTraffic: traffic.backgroundTraffic,
+		period: traffic.backgroundTrafficPeriod,
+		oracle,
+	});
+	return oracle;
+}
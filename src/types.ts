@@ -1,4 +1,7 @@
-export type CellType = 'road' | 'building' | 'empty';
+/** A `closed` cell is a road shut by an incident; nothing may drive into it until it reopens. */
+export type CellType = 'road' | 'closed' | 'building' | 'empty';
+
+export type Direction = 'north' | 'south' | 'east' | 'west';
 
 export interface Position {
 	x: number;
@@ -13,6 +16,18 @@ export interface Passenger {
 	pickedUpTick?: number;
 	deliveredTick?: number;
 	assignedTaxiId?: string;
+	directDistance?: number;
+	/** Ticks the passenger will wait for a pickup before giving up; unset means forever. */
+	patience?: number;
+	abandonedTick?: number;
+	/** Set while no taxi can reach the pickup or get from there to the destination. */
+	unreachable?: boolean;
+}
+
+export interface Stop {
+	kind: 'pickup' | 'dropoff';
+	passengerId: string;
+	position: Position;
 }
 
 export interface Taxi {
@@ -20,10 +35,50 @@ export interface Taxi {
 	position: Position;
 	targetPosition?: Position;
 	path: Position[];
-	currentPassenger?: Passenger;
-	state: 'idle' | 'picking_up' | 'delivering';
+	capacity: number;
+	stops: Stop[];
+	onboard: number;
+	state: 'idle' | 'repositioning' | 'picking_up' | 'delivering' | 'to_charger' | 'charging' | 'to_depot' | 'offline';
 	totalDeliveries: number;
 	totalDistance: number;
+	passengerDistance: number;
+	moveProgress: number;
+	heading?: Direction;
+	/** Remaining range in cells. */
+	battery: number;
+	batteryCapacity: number;
+	/** Ticks spent driving to a charger or charging. */
+	chargingTicks: number;
+	/** Daily working hours; taxis without one work the whole run. */
+	shift?: ShiftWindow;
+	/** False once the shift has ended, even while the taxi finishes delivering. */
+	onShift: boolean;
+	/** Fares collected so far. */
+	revenue: number;
+	/** Cells driven with nobody on board. */
+	deadheadDistance: number;
+}
+
+/** Ticks of the day (`tick % ticksPerDay`); a window with `start > end` runs past midnight. */
+export interface ShiftWindow {
+	start: number;
+	end: number;
+}
+
+export interface ShiftBlock extends ShiftWindow {
+	taxis: number;
+}
+
+/** Road cells closed from tick `start` (at least 1) for `duration` ticks, or for good without one. */
+export interface RoadIncident {
+	cells: Position[];
+	start: number;
+	duration?: number;
+}
+
+export interface TurnRules {
+	noUTurn: boolean;
+	noLeftTurn: boolean;
 }
 
 export interface City {
@@ -31,6 +86,35 @@ export interface City {
 	width: number;
 	height: number;
 	pickupSpots: Position[];
+	oneWay: (Direction | null)[][];
+	turnRules: TurnRules;
+	chargingStations: Position[];
+	/** Bumped whenever the layout is edited, so cached distances can be dropped. */
+	version: number;
+}
+
+export interface TrafficSettings {
+	congestionFactor: number;
+	backgroundTraffic: number;
+	backgroundTrafficPeriod: number;
+}
+
+export interface EnergySettings {
+	/** Range in cells restored per tick spent at a charger. */
+	chargeRate: number;
+	/** Share of capacity below which an idle taxi goes to charge. */
+	lowBatteryThreshold: number;
+}
+
+/** Every passenger pays their own meter, so shared rides earn more per cell. */
+export interface FareSettings {
+	baseFare: number;
+	/** Charged per cell driven with the passenger on board. */
+	perCellRate: number;
+	/** Charged per tick the taxi stands still in traffic with the passenger on board. */
+	waitingRate: number;
+	/** Operating cost per cell driven empty. */
+	deadheadCostPerCell: number;
 }
 
 export interface SimulationState {
@@ -39,7 +123,12 @@ export interface SimulationState {
 	waitingPassengers: Passenger[];
 	activePassengers: Passenger[];
 	completedPassengers: Passenger[];
+	abandonedPassengers: Passenger[];
 	tick: number;
+	reassignments: number;
+	traffic: TrafficSettings;
+	energy: EnergySettings;
+	fares: FareSettings;
 }
 
 export interface Metrics {
@@ -48,9 +137,24 @@ export interface Metrics {
 	totalPassengersServed: number;
 	totalPassengersWaiting: number;
 	avgTaxiUtilization: number;
+	avgOccupancy: number;
+	avgDetourRatio: number;
+	totalReassignments: number;
+	abandonmentRate: number;
+	lostDemand: number;
+	chargingDowntime: number;
+	activeTaxis: number;
+	revenue: number;
+	deadheadDistance: number;
+	profit: number;
+	unreachablePassengers: number;
 }
 
+export type PatienceDistribution = 'infinite' | 'fixed' | 'uniform' | 'normal' | 'exponential';
+
 export interface SimulationConfig {
+	/** Id of a registered city layout, see `layouts.ts`. */
+	cityLayout: string;
 	cityWidth: number;
 	cityHeight: number;
 	numTaxis: number;
@@ -60,4 +164,32 @@ export interface SimulationConfig {
 	burstChance: number;
 	burstMinSize: number;
 	burstMaxSize: number;
+	taxiCapacity: number;
+	maxDetourRatio: number;
+	rebalanceWindow: number;
+	reassignThreshold: number;
+	congestionFactor: number;
+	backgroundTraffic: number;
+	backgroundTrafficPeriod: number;
+	oneWayFraction: number;
+	noUTurn: boolean;
+	noLeftTurn: boolean;
+	ticksPerDay: number;
+	startHour: number;
+	patienceDistribution: PatienceDistribution;
+	patienceMean: number;
+	patienceSpread: number;
+	/** Cells a full battery lasts; 0 runs the fleet without batteries. */
+	batteryRange: number;
+	chargeRate: number;
+	lowBatteryThreshold: number;
+	numChargingStations: number;
+	/** Extra taxis that only work part of the day, on top of the `numTaxis` that always work. */
+	shifts: ShiftBlock[];
+	shiftEndBehavior: 'depot' | 'offline';
+	baseFare: number;
+	farePerCell: number;
+	fareWaitingRate: number;
+	deadheadCostPerCell: number;
+	incidents: RoadIncident[];
 }
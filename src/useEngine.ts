@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+	applyEngineEvent,
+	type EngineCommand,
+	type EngineEvent,
+	type EngineRequest,
+	type EngineResults,
+	type EngineView,
+} from './engineProtocol';
+
+interface PendingRequest {
+	resolve: (result: EngineResults[keyof EngineResults]) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Runs the engine in a worker and mirrors its run for rendering. Updates are
+ * folded in as they arrive but only rendered once per animation frame.
+ */
+export function useEngine() {
+	const [view, setView] = useState<EngineView | null>(null);
+	const workerRef = useRef<Worker | null>(null);
+	const viewRef = useRef<EngineView | null>(null);
+	const pendingRef = useRef(new Map<number, PendingRequest>());
+	const nextRequestId = useRef(0);
+
+	useEffect(() => {
+		const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+		const pending = pendingRef.current;
+		let frame = 0;
+
+		worker.onmessage = (e: MessageEvent<EngineEvent>) => {
+			const event = e.data;
+			if (event.type === 'reply') {
+				const request = pending.get(event.requestId);
+				pending.delete(event.requestId);
+				if (event.error !== undefined) {
+					request?.reject(new Error(event.error));
+				} else {
+					request?.resolve(event.result!);
+				}
+				return;
+			}
+
+			viewRef.current = applyEngineEvent(viewRef.current, event);
+			frame ||= requestAnimationFrame(() => {
+				frame = 0;
+				setView(viewRef.current);
+			});
+		};
+		workerRef.current = worker;
+
+		return () => {
+			cancelAnimationFrame(frame);
+			worker.terminate();
+			workerRef.current = null;
+			for (const request of pending.values()) {
+				request.reject(new Error('Engine stopped'));
+			}
+			pending.clear();
+		};
+	}, []);
+
+	const send = useCallback((command: EngineCommand) => {
+		workerRef.current?.postMessage(command);
+	}, []);
+
+	const request = useCallback(<T extends EngineRequest>(req: T): Promise<EngineResults[T['type']]> => {
+		const requestId = nextRequestId.current++;
+		return new Promise((resolve, reject) => {
+			pendingRef.current.set(requestId, { resolve: resolve as PendingRequest['resolve'], reject });
+			workerRef.current?.postMessage({ ...req, requestId });
+		});
+	}, []);
+
+	return { view, send, request };
+}